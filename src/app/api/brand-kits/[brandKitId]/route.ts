@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { deleteBrandKit, listBrandKits } from "@/lib/brand-kits";
+
+export const runtime = "nodejs";
+
+export async function DELETE(
+  _request: Request,
+  context: { params: Promise<{ brandKitId: string }> },
+) {
+  try {
+    const { brandKitId } = await context.params;
+    deleteBrandKit(brandKitId);
+    return NextResponse.json({ ok: true, brandKits: listBrandKits() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "ブランドキットの削除に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
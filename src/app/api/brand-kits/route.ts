@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { listBrandKits, saveBrandKit } from "@/lib/brand-kits";
+
+export const runtime = "nodejs";
+
+const schema = z.object({
+  brandKitId: z.string().min(1).optional(),
+  name: z.string().trim().min(1).max(100),
+  colors: z
+    .array(z.object({ hex: z.string().min(1), name: z.string().max(50).optional() }))
+    .min(1, "ブランドカラーを1色以上指定してください。")
+    .max(24),
+  fonts: z.array(z.string().max(100)).max(10).default([]),
+  toneRules: z.array(z.string().max(300)).max(20).default([]),
+  maxColorDistance: z.number().min(1).max(100).optional(),
+  maxOffPaletteShare: z.number().min(0).max(1).optional(),
+});
+
+export async function GET() {
+  return NextResponse.json({ ok: true, brandKits: listBrandKits() });
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = schema.parse(await request.json());
+    const brandKit = saveBrandKit(body);
+    return NextResponse.json({ ok: true, brandKit, brandKits: listBrandKits() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "ブランドキットの保存に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
@@ -3,7 +3,7 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 import { loadJob, updateMemoDecisions } from "@/lib/jobs-store";
 import { parsePageSelection } from "@/lib/page-selection";
-import { buildPromptForSlide } from "@/lib/prompts";
+import { buildJobSlidePrompt } from "@/lib/generation";
 
 export const runtime = "nodejs";
 
@@ -33,13 +33,7 @@ export async function POST(request: Request) {
         throw new Error(`ページ ${page} が見つかりません。`);
       }
 
-      const prompt = buildPromptForSlide({
-        slide,
-        designPrompt: body.designPrompt,
-        memoDecisions: job.memoDecisions,
-        manualMemoExclusions: job.manualMemoExclusions,
-        logoReferenceCount: (job.logoReferenceFiles ?? []).length,
-      });
+      const prompt = buildJobSlidePrompt({ job, slide, designPrompt: body.designPrompt });
 
       return {
         page,
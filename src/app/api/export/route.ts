@@ -5,6 +5,8 @@ import { PDFDocument } from "pdf-lib";
 import PptxGenJS from "pptxgenjs";
 import sharp from "sharp";
 import { z } from "zod";
+import { resolveJobPageSize } from "@/lib/aspect-ratio";
+import { loadJob } from "@/lib/jobs-store";
 import { ensureDir, getJobDir } from "@/lib/paths";
 
 export const runtime = "nodejs";
@@ -22,10 +24,7 @@ const schema = z.object({
     .min(1),
 });
 
-const SLIDE_WIDTH_PT = 960;
-const SLIDE_HEIGHT_PT = 540;
-const PPTX_WIDTH_IN = 13.333;
-const PPTX_HEIGHT_IN = 7.5;
+type PageSize = ReturnType<typeof resolveJobPageSize>;
 
 function createExportFileName(format: "pdf" | "pptx"): string {
   const now = new Date();
@@ -72,7 +71,7 @@ async function readImageForExport(filePath: string): Promise<{
   throw new Error(`Unsupported image format: ${ext}`);
 }
 
-async function exportPdf(outputPath: string, imagePaths: string[]): Promise<void> {
+async function exportPdf(outputPath: string, imagePaths: string[], pageSize: PageSize): Promise<void> {
   const pdf = await PDFDocument.create();
 
   for (const imagePath of imagePaths) {
@@ -82,12 +81,12 @@ async function exportPdf(outputPath: string, imagePaths: string[]): Promise<void
         ? await pdf.embedPng(image.bytes)
         : await pdf.embedJpg(image.bytes);
 
-    const page = pdf.addPage([SLIDE_WIDTH_PT, SLIDE_HEIGHT_PT]);
+    const page = pdf.addPage([pageSize.widthPt, pageSize.heightPt]);
     page.drawImage(embedded, {
       x: 0,
       y: 0,
-      width: SLIDE_WIDTH_PT,
-      height: SLIDE_HEIGHT_PT,
+      width: pageSize.widthPt,
+      height: pageSize.heightPt,
     });
   }
 
@@ -95,14 +94,14 @@ async function exportPdf(outputPath: string, imagePaths: string[]): Promise<void
   fs.writeFileSync(outputPath, Buffer.from(bytes));
 }
 
-async function exportPptx(outputPath: string, imagePaths: string[]): Promise<void> {
+async function exportPptx(outputPath: string, imagePaths: string[], pageSize: PageSize): Promise<void> {
   const pptx = new PptxGenJS();
   pptx.defineLayout({
-    name: "WIDE_16_9",
-    width: PPTX_WIDTH_IN,
-    height: PPTX_HEIGHT_IN,
+    name: "SOURCE_DECK",
+    width: pageSize.widthIn,
+    height: pageSize.heightIn,
   });
-  pptx.layout = "WIDE_16_9";
+  pptx.layout = "SOURCE_DECK";
   pptx.author = "Nanobanana Slide Studio";
   pptx.company = "Nanobanana Slide Studio";
   pptx.subject = "Generated Slides";
@@ -116,8 +115,8 @@ async function exportPptx(outputPath: string, imagePaths: string[]): Promise<voi
       data,
       x: 0,
       y: 0,
-      w: PPTX_WIDTH_IN,
-      h: PPTX_HEIGHT_IN,
+      w: pageSize.widthIn,
+      h: pageSize.heightIn,
     });
   }
 
@@ -133,6 +132,7 @@ export async function POST(request: Request) {
       return NextResponse.json({ ok: false, error: "Job not found." }, { status: 404 });
     }
 
+    const pageSize = resolveJobPageSize(loadJob(body.jobId));
     const sortedSlides = [...body.slides].sort((a, b) => a.page - b.page);
     const imagePaths = sortedSlides.map((slide) => {
       const resolved = resolveFileInJob(jobDir, slide.outputImageFile);
@@ -148,9 +148,9 @@ export async function POST(request: Request) {
     const outputPath = path.join(exportsDir, fileName);
 
     if (body.format === "pdf") {
-      await exportPdf(outputPath, imagePaths);
+      await exportPdf(outputPath, imagePaths, pageSize);
     } else {
-      await exportPptx(outputPath, imagePaths);
+      await exportPptx(outputPath, imagePaths, pageSize);
     }
 
     const file = path.join("exports", fileName).replaceAll("\\", "/");
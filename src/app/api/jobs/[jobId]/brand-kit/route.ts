@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { hasBrandKit } from "@/lib/brand-kits";
+import { setJobBrandKit } from "@/lib/jobs-store";
+
+export const runtime = "nodejs";
+
+const bodySchema = z.object({
+  brandKitId: z.string().refine(hasBrandKit, "ブランドキットが見つかりません。").nullable(),
+});
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ jobId: string }> },
+) {
+  try {
+    const { jobId } = await context.params;
+    const body = bodySchema.parse(await request.json());
+    const job = setJobBrandKit(jobId, body.brandKitId);
+    return NextResponse.json({ ok: true, brandKitId: job.brandKitId ?? null });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "ブランドキットの設定に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { setChosenVersion } from "@/lib/jobs-store";
+
+export const runtime = "nodejs";
+
+const bodySchema = z.object({
+  page: z.number().int().positive(),
+  version: z.number().int().positive().nullable(),
+});
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ jobId: string }> },
+) {
+  try {
+    const { jobId } = await context.params;
+    const body = bodySchema.parse(await request.json());
+    const job = setChosenVersion(jobId, body.page, body.version);
+    return NextResponse.json({ ok: true, chosenVersions: job.chosenVersions ?? {} });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "採用版の保存に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { loadJob, setJobImageProvider } from "@/lib/jobs-store";
+import { getImageProvider, isImageProviderId, listImageProviderOptions } from "@/lib/image-providers";
+
+export const runtime = "nodejs";
+
+const bodySchema = z.object({
+  provider: z.string().refine(isImageProviderId, "未対応の画像生成プロバイダーです。"),
+});
+
+export async function GET(
+  _request: Request,
+  context: { params: Promise<{ jobId: string }> },
+) {
+  try {
+    const { jobId } = await context.params;
+    const job = loadJob(jobId);
+    return NextResponse.json({
+      ok: true,
+      provider: getImageProvider(job.imageProvider).id,
+      providers: listImageProviderOptions(),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "画像生成プロバイダーの取得に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 404 });
+  }
+}
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ jobId: string }> },
+) {
+  try {
+    const { jobId } = await context.params;
+    const body = bodySchema.parse(await request.json());
+    const job = setJobImageProvider(jobId, body.provider);
+    return NextResponse.json({ ok: true, provider: job.imageProvider, providers: listImageProviderOptions() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "画像生成プロバイダーの保存に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
@@ -1,4 +1,5 @@
 ﻿import { NextResponse } from "next/server";
+import { resumeGenerationQueue } from "@/lib/generation-queue";
 import { loadJob } from "@/lib/jobs-store";
 
 export const runtime = "nodejs";
@@ -9,6 +10,7 @@ export async function GET(
 ) {
   try {
     const { jobId } = await context.params;
+    resumeGenerationQueue();
     const job = loadJob(jobId);
     const designReferenceFiles = job.designReferenceFiles ?? [];
     const logoReferenceFiles = job.logoReferenceFiles ?? [];
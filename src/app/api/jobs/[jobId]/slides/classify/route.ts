@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { suggestJobPageRoles } from "@/lib/page-role-classifier";
+
+export const runtime = "nodejs";
+
+export async function POST(
+  _request: Request,
+  context: { params: Promise<{ jobId: string }> },
+) {
+  try {
+    const { jobId } = await context.params;
+    const job = suggestJobPageRoles(jobId);
+    return NextResponse.json({
+      ok: true,
+      slides: job.slides.map((slide) => ({ page: slide.page, roleSuggestion: slide.roleSuggestion ?? null })),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "ページの役割の判定に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
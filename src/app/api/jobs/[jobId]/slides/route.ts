@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { updateSlideSettings } from "@/lib/jobs-store";
+import { PAGE_ROLE_IDS } from "@/lib/page-roles";
+
+export const runtime = "nodejs";
+
+const bodySchema = z.object({
+  pages: z.array(z.number().int().positive()).min(1, "対象ページを指定してください。"),
+  role: z.enum(PAGE_ROLE_IDS).nullable().optional(),
+  designPromptOverride: z.string().max(4000).nullable().optional(),
+});
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ jobId: string }> },
+) {
+  try {
+    const { jobId } = await context.params;
+    const body = bodySchema.parse(await request.json());
+    const job = updateSlideSettings(jobId, body.pages, {
+      role: body.role,
+      designPromptOverride: body.designPromptOverride,
+    });
+    return NextResponse.json({
+      ok: true,
+      slides: job.slides.map((slide) => ({
+        page: slide.page,
+        role: slide.role ?? null,
+        designPromptOverride: slide.designPromptOverride ?? null,
+      })),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "ページ設定の保存に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
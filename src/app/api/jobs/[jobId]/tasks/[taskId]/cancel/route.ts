@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { cancelGenerationTask } from "@/lib/generation-queue";
+
+export const runtime = "nodejs";
+
+export async function POST(
+  _request: Request,
+  context: { params: Promise<{ jobId: string; taskId: string }> },
+) {
+  try {
+    const { jobId, taskId } = await context.params;
+    const task = cancelGenerationTask(jobId, taskId);
+    return NextResponse.json({ ok: true, taskId: task.taskId, status: task.status });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "生成の中止に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { withImageUrl } from "@/lib/generation";
+import { subscribeTaskEvents } from "@/lib/generation-events";
+import { resumeGenerationQueue } from "@/lib/generation-queue";
+import { loadTask } from "@/lib/tasks-store";
+import type { GenerationTaskEvent, GenerationTaskStatus } from "@/lib/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+function isFinished(status: GenerationTaskStatus): boolean {
+  return status === "completed" || status === "cancelled" || status === "failed";
+}
+
+function formatSse(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ jobId: string; taskId: string }> },
+) {
+  try {
+    const { jobId, taskId } = await context.params;
+    resumeGenerationQueue();
+    loadTask(jobId, taskId);
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+        const send = (event: string, data: unknown) => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(formatSse(event, data)));
+          }
+        };
+        const close = () => {
+          if (closed) {
+            return;
+          }
+          closed = true;
+          cleanup();
+          controller.close();
+        };
+
+        // スナップショット取得前に購読し、その間に発生したイベントの取りこぼしを防ぐ。
+        const unsubscribe = subscribeTaskEvents(taskId, (event: GenerationTaskEvent) => {
+          if (event.type === "page") {
+            send("page", {
+              ...event,
+              result: event.result ? withImageUrl(jobId, event.result) : undefined,
+            });
+            return;
+          }
+          send("task", event);
+          if (isFinished(event.status)) {
+            close();
+          }
+        });
+        const heartbeat = setInterval(() => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(": ping\n\n"));
+          }
+        }, HEARTBEAT_INTERVAL_MS);
+        cleanup = () => {
+          unsubscribe();
+          clearInterval(heartbeat);
+        };
+        request.signal.addEventListener("abort", close);
+
+        const task = loadTask(jobId, taskId);
+        send("snapshot", {
+          ...task,
+          totalPages: task.plan?.length ?? task.pages.length,
+          completedPages: task.results.length,
+          results: task.results.map((result) => withImageUrl(jobId, result)),
+        });
+        if (isFinished(task.status)) {
+          close();
+        }
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "生成タスクの取得に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 404 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { withImageUrl } from "@/lib/generation";
+import { resumeGenerationQueue } from "@/lib/generation-queue";
+import { loadTask } from "@/lib/tasks-store";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  _request: Request,
+  context: { params: Promise<{ jobId: string; taskId: string }> },
+) {
+  try {
+    const { jobId, taskId } = await context.params;
+    resumeGenerationQueue();
+    const task = loadTask(jobId, taskId);
+
+    return NextResponse.json({
+      ...task,
+      totalPages: task.plan?.length ?? task.pages.length,
+      completedPages: task.results.length,
+      results: task.results.map((result) => withImageUrl(jobId, result)),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "生成タスクの取得に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 404 });
+  }
+}
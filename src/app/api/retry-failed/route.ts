@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { loadJob } from "@/lib/jobs-store";
+import { enqueueGenerationTask, resumeGenerationQueue } from "@/lib/generation-queue";
+import { getImageProvider, hasProviderApiKey } from "@/lib/image-providers";
+import type { RetryTarget } from "@/lib/types";
+
+export const runtime = "nodejs";
+
+const schema = z.object({
+  jobId: z.string().min(1),
+  overrideSpendingLimits: z.boolean().optional(),
+});
+
+export async function POST(request: Request) {
+  try {
+    const body = schema.parse(await request.json());
+
+    if (!hasProviderApiKey(loadJob(body.jobId).imageProvider)) {
+      return NextResponse.json(
+        { ok: false, error: "APIキーが未設定です。設定画面で登録してください。" },
+        { status: 400 },
+      );
+    }
+
+    // 再起動直後でも、実行中のまま残った前回のタスクを再開してから判定する。
+    resumeGenerationQueue();
+    const job = loadJob(body.jobId);
+    const latestRun = job.runs[job.runs.length - 1];
+    if (!latestRun) {
+      return NextResponse.json({ ok: false, error: "生成履歴がありません。" }, { status: 400 });
+    }
+    if (latestRun.status === "running") {
+      return NextResponse.json(
+        { ok: false, error: "最新の生成がまだ実行中です。完了後に再試行してください。" },
+        { status: 409 },
+      );
+    }
+
+    const slidePages = new Set(job.slides.map((slide) => slide.page));
+    const retryTargets: RetryTarget[] = latestRun.results
+      .filter(
+        (result) =>
+          (result.status === "error" || result.status === "cancelled") && slidePages.has(result.page),
+      )
+      .map((result) => ({
+        page: result.page,
+        promptFile: result.promptFile,
+        sourceRunId: latestRun.runId,
+        fixPrompt: result.fixPrompt,
+        editedFromVersion: result.editedFromVersion,
+        maskRects: result.maskRects,
+        maskBaseVersion: result.maskBaseVersion,
+      }));
+
+    if (retryTargets.length === 0) {
+      return NextResponse.json(
+        { ok: false, error: "最新の生成に再試行対象の失敗ページはありません。" },
+        { status: 400 },
+      );
+    }
+
+    // 失敗時と同じモデル・サイズで再試行する（プロバイダーが切り替わっている場合は既定モデル）。
+    const sameModelAvailable = getImageProvider(job.imageProvider).models.includes(latestRun.model);
+    const task = enqueueGenerationTask({
+      jobId: job.jobId,
+      kind: "retry",
+      designPrompt: latestRun.designPrompt ?? "",
+      model: sameModelAvailable ? latestRun.model : undefined,
+      imageSize: latestRun.imageSize,
+      promptTemplateId: latestRun.promptTemplateId,
+      promptTemplateVersion: latestRun.promptTemplateVersion,
+      overrideSpendingLimits: body.overrideSpendingLimits,
+      pages: retryTargets.map((target) => target.page),
+      retryTargets,
+    });
+
+    return NextResponse.json(
+      {
+        ok: true,
+        taskId: task.taskId,
+        runId: task.runId,
+        status: task.status,
+        pages: task.pages,
+      },
+      { status: 202 },
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "失敗ページの再試行に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  getGenerationSettings,
+  MAX_GENERATION_CONCURRENCY,
+  saveGenerationSettings,
+} from "@/lib/settings";
+
+export const runtime = "nodejs";
+
+const bodySchema = z.object({
+  concurrency: z
+    .number()
+    .int()
+    .min(1, "同時生成数は1以上を指定してください。")
+    .max(MAX_GENERATION_CONCURRENCY, `同時生成数は${MAX_GENERATION_CONCURRENCY}以下を指定してください。`),
+});
+
+export async function GET() {
+  return NextResponse.json({ ...getGenerationSettings(), maxConcurrency: MAX_GENERATION_CONCURRENCY });
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = bodySchema.parse(await request.json());
+    const saved = saveGenerationSettings(body);
+    return NextResponse.json({ ok: true, ...saved, maxConcurrency: MAX_GENERATION_CONCURRENCY });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "生成設定の保存に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
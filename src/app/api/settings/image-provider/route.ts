@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  getDefaultImageProviderId,
+  getImageProviderEnvOverride,
+  isImageProviderId,
+  listImageProviderOptions,
+} from "@/lib/image-providers";
+import { saveDefaultImageProvider } from "@/lib/settings";
+
+export const runtime = "nodejs";
+
+const bodySchema = z.object({
+  provider: z.string().refine(isImageProviderId, "未対応の画像生成プロバイダーです。"),
+});
+
+function currentSettings() {
+  return {
+    provider: getDefaultImageProviderId(),
+    envOverride: getImageProviderEnvOverride(),
+    providers: listImageProviderOptions(),
+  };
+}
+
+export async function GET() {
+  return NextResponse.json(currentSettings());
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = bodySchema.parse(await request.json());
+    saveDefaultImageProvider(body.provider);
+    return NextResponse.json({ ok: true, ...currentSettings() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "既定の画像生成プロバイダーの保存に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
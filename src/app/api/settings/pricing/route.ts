@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getModelPrices, saveModelPrices } from "@/lib/settings";
+
+export const runtime = "nodejs";
+
+const priceSchema = z.object({
+  inputUsdPerMillionTokens: z.number().min(0, "単価は0以上を指定してください。"),
+  outputUsdPerMillionTokens: z.number().min(0, "単価は0以上を指定してください。"),
+});
+
+const bodySchema = z.object({
+  prices: z.record(z.string().min(1), priceSchema),
+});
+
+export async function GET() {
+  return NextResponse.json({ prices: getModelPrices() });
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = bodySchema.parse(await request.json());
+    const prices = saveModelPrices(body.prices);
+    return NextResponse.json({ ok: true, prices });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "単価表の保存に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getPromptTemplateSettings, loadPromptTemplate, savePromptTemplateVersion } from "@/lib/prompt-templates";
+
+export const runtime = "nodejs";
+
+const bodySchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  body: z.string().min(1),
+  note: z.string().max(200).optional(),
+});
+
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ templateId: string }> },
+) {
+  try {
+    const { templateId } = await context.params;
+    const versionParam = new URL(request.url).searchParams.get("version");
+    const version = versionParam ? Number(versionParam) : undefined;
+    if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+      throw new Error("版の指定が不正です。");
+    }
+    return NextResponse.json({ ok: true, template: loadPromptTemplate(templateId, version) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "プロンプトテンプレートの取得に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 404 });
+  }
+}
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ templateId: string }> },
+) {
+  try {
+    const { templateId } = await context.params;
+    const body = bodySchema.parse(await request.json());
+    const template = savePromptTemplateVersion(templateId, body);
+    return NextResponse.json({ ok: true, template, ...getPromptTemplateSettings() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "プロンプトテンプレートの保存に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
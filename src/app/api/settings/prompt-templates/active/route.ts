@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getPromptTemplateSettings, hasPromptTemplate } from "@/lib/prompt-templates";
+import { saveActivePromptTemplateId } from "@/lib/settings";
+
+export const runtime = "nodejs";
+
+const bodySchema = z.object({
+  templateId: z.string().refine(hasPromptTemplate, "プロンプトテンプレートが見つかりません。"),
+});
+
+export async function POST(request: Request) {
+  try {
+    const body = bodySchema.parse(await request.json());
+    saveActivePromptTemplateId(body.templateId);
+    return NextResponse.json({ ok: true, ...getPromptTemplateSettings() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "使用するプロンプトテンプレートの保存に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { createPromptTemplate, getPromptTemplateSettings } from "@/lib/prompt-templates";
+import { saveActivePromptTemplateId } from "@/lib/settings";
+
+export const runtime = "nodejs";
+
+const bodySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  body: z.string().min(1),
+  note: z.string().max(200).optional(),
+  activate: z.boolean().optional(),
+});
+
+export async function GET() {
+  return NextResponse.json(getPromptTemplateSettings());
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = bodySchema.parse(await request.json());
+    const template = createPromptTemplate(body);
+    if (body.activate) {
+      saveActivePromptTemplateId(template.templateId);
+    }
+    return NextResponse.json({ ok: true, template, ...getPromptTemplateSettings() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "プロンプトテンプレートの保存に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
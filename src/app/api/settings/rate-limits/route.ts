@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRateLimits, saveRateLimits } from "@/lib/settings";
+
+export const runtime = "nodejs";
+
+const bodySchema = z.object({
+  limits: z.record(
+    z.string().min(1),
+    z.number().int().min(1, "毎分リクエスト数は1以上を指定してください。"),
+  ),
+});
+
+export async function GET() {
+  return NextResponse.json({ limits: getRateLimits() });
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = bodySchema.parse(await request.json());
+    const limits = saveRateLimits(body.limits);
+    return NextResponse.json({ ok: true, limits });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "レート制限の保存に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getSpendingLimits, saveSpendingLimits } from "@/lib/settings";
+
+export const runtime = "nodejs";
+
+const limitSchema = z.number().positive("上限は0より大きい金額を指定してください。").nullable();
+
+const bodySchema = z.object({
+  perJobUsd: limitSchema,
+  perDayUsd: limitSchema,
+  perMonthUsd: limitSchema,
+});
+
+export async function GET() {
+  return NextResponse.json(getSpendingLimits());
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = bodySchema.parse(await request.json());
+    const saved = saveSpendingLimits(body);
+    return NextResponse.json({ ok: true, ...saved });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "利用上限の保存に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
@@ -1,6 +1,7 @@
 ﻿import fs from "node:fs";
 import path from "node:path";
 import { NextResponse } from "next/server";
+import { nearestAspectRatio } from "@/lib/aspect-ratio";
 import { createJobId } from "@/lib/paths";
 import { initJobStorage, saveJob } from "@/lib/jobs-store";
 import { extractSlidesData } from "@/lib/pptx";
@@ -57,6 +58,9 @@ export async function POST(request: Request) {
       sourcePptFile,
       createdAt: new Date().toISOString(),
       slideCount: extracted.slideCount,
+      slideWidthEmu: extracted.slideWidth || undefined,
+      slideHeightEmu: extracted.slideHeight || undefined,
+      aspectRatio: nearestAspectRatio(extracted.slideWidth, extracted.slideHeight),
       slides: extracted.slides,
       memoDecisions,
       designReferenceFiles: [],
@@ -70,6 +74,7 @@ export async function POST(request: Request) {
     return NextResponse.json({
       jobId,
       slideCount: job.slideCount,
+      aspectRatio: job.aspectRatio,
       slides: job.slides.map((slide) => ({
         ...slide,
         sourceImageUrl: `/api/jobs/${jobId}/asset?file=${encodeURIComponent(
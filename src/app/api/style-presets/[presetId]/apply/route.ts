@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { applyStylePresetToJob } from "@/lib/style-presets";
+
+export const runtime = "nodejs";
+
+const schema = z.object({
+  jobId: z.string().min(1),
+});
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ presetId: string }> },
+) {
+  try {
+    const { presetId } = await context.params;
+    const body = schema.parse(await request.json());
+    const { job, preset } = applyStylePresetToJob(body.jobId, presetId);
+    return NextResponse.json({
+      ok: true,
+      preset,
+      designReferenceFiles: job.designReferenceFiles ?? [],
+      logoReferenceFiles: job.logoReferenceFiles ?? [],
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "スタイルプリセットの適用に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
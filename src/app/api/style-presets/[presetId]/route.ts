@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { deleteStylePreset, listStylePresets } from "@/lib/style-presets";
+
+export const runtime = "nodejs";
+
+export async function DELETE(
+  _request: Request,
+  context: { params: Promise<{ presetId: string }> },
+) {
+  try {
+    const { presetId } = await context.params;
+    deleteStylePreset(presetId);
+    return NextResponse.json({ ok: true, presets: listStylePresets() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "スタイルプリセットの削除に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
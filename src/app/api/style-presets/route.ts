@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { IMAGE_SIZES } from "@/lib/image-provider";
+import { createStylePresetFromJob, listStylePresets } from "@/lib/style-presets";
+
+export const runtime = "nodejs";
+
+const schema = z.object({
+  jobId: z.string().min(1),
+  name: z.string().trim().min(1).max(100),
+  designPrompt: z.string().min(1),
+  model: z.string().min(1).optional(),
+  imageSize: z.enum(IMAGE_SIZES).optional(),
+  includeDesignReferences: z.boolean().default(true),
+  includeLogos: z.boolean().default(true),
+});
+
+export async function GET() {
+  return NextResponse.json({ ok: true, presets: listStylePresets() });
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = schema.parse(await request.json());
+    const preset = createStylePresetFromJob(body);
+    return NextResponse.json({ ok: true, preset, presets: listStylePresets() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "スタイルプリセットの保存に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { getUsageReport, toMonthKey } from "@/lib/usage";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const jobId = url.searchParams.get("jobId") ?? undefined;
+    const month = url.searchParams.get("month") ?? toMonthKey(new Date());
+    if (!/^\d{4}-\d{2}$/.test(month)) {
+      return NextResponse.json({ ok: false, error: "month は YYYY-MM 形式で指定してください。" }, { status: 400 });
+    }
+
+    return NextResponse.json({ ok: true, ...getUsageReport({ jobId, monthKey: month }) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "利用量の集計に失敗しました。";
+    return NextResponse.json({ ok: false, error: message }, { status: 400 });
+  }
+}
@@ -2,8 +2,8 @@
 
 import Image from "next/image";
 import Link from "next/link";
-import { useEffect, useMemo, useRef, useState } from "react";
-import type { ChangeEvent } from "react";
+import { useEffect, useEffectEvent, useMemo, useRef, useState } from "react";
+import type { ChangeEvent, PointerEvent as ReactPointerEvent } from "react";
 
 type MemoCandidate = {
   id: string;
@@ -13,6 +13,14 @@ type MemoCandidate = {
   excludedByDefault: boolean;
 };
 
+type PageRole = "cover" | "agenda" | "section" | "content" | "table" | "visual" | "closing";
+
+type PageRoleSuggestion = {
+  role: PageRole;
+  confidence: number;
+  reason: string;
+};
+
 type Slide = {
   page: number;
   sourceImageFile: string;
@@ -20,6 +28,19 @@ type Slide = {
   textBlocks: string[];
   notes: string[];
   memoCandidates: MemoCandidate[];
+  role?: PageRole;
+  roleSuggestion?: PageRoleSuggestion;
+  designPromptOverride?: string;
+};
+
+type SlideSettingsResponse = {
+  ok: boolean;
+  slides: Array<{ page: number; role: PageRole | null; designPromptOverride: string | null }>;
+};
+
+type RoleSuggestionResponse = {
+  ok: boolean;
+  slides: Array<{ page: number; roleSuggestion: PageRoleSuggestion | null }>;
 };
 
 type LogoLockInfo = {
@@ -38,29 +59,72 @@ type LogoLockInfo = {
   message?: string;
 };
 
+type ResultFeedback = {
+  textParts: string[];
+  finishReason?: string;
+  blockReason?: string;
+  blockedCategories: string[];
+};
+
+type BrandColorCheck = {
+  dominantColors: Array<{
+    hex: string;
+    share: number;
+    neutral: boolean;
+    nearestBrandHex: string | null;
+    distance: number | null;
+    offPalette: boolean;
+  }>;
+  offPaletteShare: number;
+  flagged: boolean;
+  message: string;
+};
+
+type BrandKitOption = {
+  brandKitId: string;
+  name: string;
+  colors: Array<{ hex: string; name?: string }>;
+};
+
+type BrandKitListResponse = {
+  ok: boolean;
+  brandKits: BrandKitOption[];
+};
+
 type RunResult = {
   page: number;
   version: number;
   promptFile: string;
   outputImageFile: string;
   responseJsonFile: string;
-  status: "success" | "error";
+  status: "success" | "error" | "cancelled";
   logoLock?: LogoLockInfo;
+  cached?: boolean;
+  feedback?: ResultFeedback;
+  brandCheck?: BrandColorCheck;
   error?: string;
   imageUrl?: string | null;
 };
 
+type ImageSize = "1K" | "2K" | "4K";
+
 type Run = {
   runId: string;
-  type: "generate" | "regenerate";
+  type: "generate" | "regenerate" | "retry";
+  provider?: string;
   model?: string;
+  imageSize?: ImageSize;
+  variants?: number;
   createdAt: string;
+  status?: "running" | "completed" | "partial" | "failed";
+  taskId?: string;
   results: RunResult[];
 };
 
 type JobResponse = {
   jobId: string;
   slideCount: number;
+  aspectRatio?: string;
   slides: Slide[];
   memoDecisions: Record<string, boolean>;
   manualMemoExclusions?: Array<{
@@ -79,9 +143,25 @@ type JobResponse = {
     file: string;
     url: string;
   }>;
+  brandKitId?: string;
+  chosenVersions?: Record<string, number>;
   runs?: Run[];
 };
 
+type ImageProviderOption = {
+  id: string;
+  label: string;
+  defaultModel: string;
+  models: string[];
+  modelImageSizes: Record<string, ImageSize[]>;
+};
+
+type ImageProviderResponse = {
+  ok: boolean;
+  provider: string;
+  providers: ImageProviderOption[];
+};
+
 type ReferenceUploadResponse = {
   ok: boolean;
   designReferenceFiles: string[];
@@ -91,6 +171,31 @@ type ReferenceUploadResponse = {
   }>;
 };
 
+type StylePreset = {
+  presetId: string;
+  name: string;
+  designPrompt: string;
+  designReferenceFiles: string[];
+  logoReferenceFiles: string[];
+  model?: string;
+  imageSize?: ImageSize;
+  updatedAt: string;
+};
+
+type StylePresetListResponse = {
+  ok: boolean;
+  presets: StylePreset[];
+};
+
+type StylePresetSaveResponse = StylePresetListResponse & {
+  preset: StylePreset;
+};
+
+type StylePresetApplyResponse = {
+  ok: boolean;
+  preset: StylePreset;
+};
+
 type LogoUploadResponse = {
   ok: boolean;
   logoReferenceFiles: string[];
@@ -102,24 +207,121 @@ type LogoUploadResponse = {
 
 type PreviewGeneratedResult = {
   page: number;
-  status: "success" | "error";
+  status: "success" | "error" | "cancelled";
   imageUrl: string | null;
   promptFile: string;
   outputImageFile: string;
   responseJsonFile: string;
   logoLock?: LogoLockInfo;
+  cached?: boolean;
+  feedback?: ResultFeedback;
+  brandCheck?: BrandColorCheck;
   error?: string;
 };
 
-type DesignCheckResponse = {
+type TaskStatus = "queued" | "running" | "completed" | "cancelled" | "failed";
+
+type BatchState = "pending" | "running" | "succeeded" | "failed" | "cancelled" | "expired";
+
+// 再読み込み後に実行中の生成へつなぎ直すときの進捗表示。
+const RUN_PROGRESS_LABELS: Record<Run["type"], string> = {
+  generate: "本生成しています...",
+  regenerate: "修正ページを再生成しています...",
+  retry: "失敗ページを再試行しています...",
+};
+
+const BATCH_STATE_LABELS: Record<BatchState, string> = {
+  pending: "受付待ち",
+  running: "処理中",
+  succeeded: "完了・保存中",
+  failed: "失敗",
+  cancelled: "中止",
+  expired: "期限切れ",
+};
+
+type TaskAcceptedResponse = {
+  ok: boolean;
+  taskId: string;
+  runId: string;
+  status: TaskStatus;
+};
+
+type GenerateAcceptedResponse =
+  | (TaskAcceptedResponse & { pages: number[]; skippedPages: number[] })
+  | { ok: boolean; taskId: null; pages: number[]; skippedPages: number[] };
+
+type TaskResponse = {
+  taskId: string;
+  jobId: string;
+  kind: "generate" | "regenerate" | "retry" | "design-check";
+  status: TaskStatus;
   runId: string;
-  results: PreviewGeneratedResult[];
+  pages: number[];
+  totalPages: number;
+  completedPages: number;
+  results: RunResult[];
+  batchState?: BatchState;
+  error?: string;
+};
+
+type PageStage = "started" | "responded" | "logo-locked" | "saved" | "error" | "cancelled";
+
+type TaskPageEvent = {
+  type: "page";
+  taskId: string;
+  page: number;
+  version: number;
+  stage: PageStage;
+  at: string;
+  message?: string;
+  result?: RunResult;
+};
+
+type TaskStatusEvent = {
+  type: "task";
+  taskId: string;
+  status: TaskStatus;
+  at: string;
+  completedPages: number;
+  totalPages: number;
+  batchState?: BatchState;
+  error?: string;
+};
+
+type TaskProgress = {
+  jobId: string;
+  taskId: string;
+  label: string;
+  status: TaskStatus;
+  completedPages: number;
+  totalPages: number;
+  pages: number[];
+  pageStages: Record<number, PageStage | "queued">;
+  batchState?: BatchState;
+};
+
+// 画像に対する割合（0〜1）で表した修正範囲。
+type MaskRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+type MaskDraft = {
+  resultId: string;
+  startX: number;
+  startY: number;
+  rect: MaskRect;
 };
 
 type EditRow = {
   id: string;
   page: string;
   fixPrompt: string;
+  continueFromCurrent?: boolean;
+  maskRects?: MaskRect[];
+  maskBaseVersion?: number;
 };
 
 type ManualExclusionRow = {
@@ -136,13 +338,17 @@ type ManualExclusionRow = {
 type DisplayResult = {
   id: string;
   page: number;
-  status: "success" | "error";
+  status: "success" | "error" | "cancelled";
   imageUrl: string | null;
-  source: "preview" | "generate" | "regenerate";
+  source: "preview" | "generate" | "regenerate" | "retry";
+  version?: number;
   versionLabel?: string;
   runId?: string;
   outputImageFile?: string;
   logoLock?: LogoLockInfo;
+  cached?: boolean;
+  feedback?: ResultFeedback;
+  brandCheck?: BrandColorCheck;
   error?: string;
 };
 
@@ -150,9 +356,11 @@ type LoadingOperation =
   | "extract"
   | "reference-upload"
   | "logo-upload"
+  | "style-preset"
   | "design-check"
   | "generate"
-  | "regenerate";
+  | "regenerate"
+  | "retry";
 
 type PersistedUiState = {
   jobId?: string;
@@ -161,6 +369,10 @@ type PersistedUiState = {
   memoDecisions?: Record<string, boolean>;
   editRows?: EditRow[];
   displayMode?: "preview" | "final" | null;
+  imageModel?: string;
+  imageSize?: ImageSize;
+  variants?: number;
+  reuseIfUnchanged?: boolean;
 };
 
 const DESIGN_REFERENCE_URL =
@@ -169,6 +381,8 @@ const UI_STATE_STORAGE_KEY = "nanobanana-slide-studio/ui-state/v2";
 const PROMPT_ENGINE_LABEL = "Prompt: ローカルテンプレート生成（LLM呼び出しなし）";
 const DEFAULT_IMAGE_MODEL_LABEL = "Image: gemini-3-pro-image-preview";
 const FINAL_CURSOR_LATEST = Number.MAX_SAFE_INTEGER;
+const IMAGE_SIZE_OPTIONS: ImageSize[] = ["1K", "2K", "4K"];
+const VARIANT_OPTIONS = [1, 2, 3, 4];
 const OVERLAP_FIX_PRESET =
   "不要な多重四角形・過剰な重なりを抑え、視認性を優先してください。意図がない装飾の重なりは作らない。";
 
@@ -200,12 +414,70 @@ type ManualMemoSaveResponse = {
   manualMemoExclusions: ManualMemoItem[];
 };
 
+type ChosenVersionResponse = {
+  ok: boolean;
+  chosenVersions: Record<string, number>;
+};
+
+type VariantCandidate = {
+  id: string;
+  version: number;
+  imageUrl: string;
+};
+
+type UsageTotals = {
+  requestCount: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  imageCount: number;
+  estimatedCostUsd: number;
+};
+
+type UsageResponse = {
+  ok: boolean;
+  runs: Array<{
+    runId: string;
+    taskId: string;
+    kind: TaskResponse["kind"];
+    model: string;
+    createdAt: string;
+    totals: UsageTotals;
+  }>;
+  job: UsageTotals | null;
+  day: { day: string; totals: UsageTotals };
+  month: { month: string; totals: UsageTotals };
+  limits: {
+    perJobUsd: number | null;
+    perDayUsd: number | null;
+    perMonthUsd: number | null;
+  };
+};
+
 type ManualMemoDeleteResponse = {
   ok: boolean;
   manualMemoExclusions: ManualMemoItem[];
 };
 
 const MANUAL_SAVE_DEBOUNCE_MS = 600;
+const PAGE_ROLE_LABELS: Record<PageRole, string> = {
+  cover: "表紙",
+  agenda: "目次",
+  section: "セクション扉",
+  content: "本文",
+  table: "表・データ",
+  visual: "図・写真中心",
+  closing: "まとめ・結び",
+};
+const PAGE_STAGE_LABELS: Record<PageStage | "queued", string> = {
+  queued: "待機中",
+  started: "生成中",
+  responded: "Gemini応答受信",
+  "logo-locked": "ロゴ固定適用",
+  saved: "保存済み",
+  error: "エラー",
+  cancelled: "中止",
+};
 
 function createEditRow(page = ""): EditRow {
   return {
@@ -215,6 +487,38 @@ function createEditRow(page = ""): EditRow {
   };
 }
 
+const MIN_MASK_RATIO = 0.01;
+
+function clampRatio(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function pointerRatio(event: ReactPointerEvent<HTMLElement>): { x: number; y: number } {
+  const bounds = event.currentTarget.getBoundingClientRect();
+  return {
+    x: clampRatio((event.clientX - bounds.left) / bounds.width),
+    y: clampRatio((event.clientY - bounds.top) / bounds.height),
+  };
+}
+
+function rectFromPoints(startX: number, startY: number, x: number, y: number): MaskRect {
+  return {
+    x: Math.min(startX, x),
+    y: Math.min(startY, y),
+    width: Math.abs(x - startX),
+    height: Math.abs(y - startY),
+  };
+}
+
+function maskRectStyle(rect: MaskRect) {
+  return {
+    left: `${rect.x * 100}%`,
+    top: `${rect.y * 100}%`,
+    width: `${rect.width * 100}%`,
+    height: `${rect.height * 100}%`,
+  };
+}
+
 function createManualExclusionRow(page = "", text = ""): ManualExclusionRow {
   return {
     id: `tmp_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
@@ -252,6 +556,97 @@ async function fetchJson<T>(input: RequestInfo, init?: RequestInit): Promise<T>
   return payload;
 }
 
+function isTaskFinished(status: TaskStatus): boolean {
+  return status === "completed" || status === "cancelled" || status === "failed";
+}
+
+function watchTask(
+  jobId: string,
+  taskId: string,
+  handlers: {
+    onSnapshot?: (task: TaskResponse) => void;
+    onPageEvent?: (event: TaskPageEvent) => void;
+    onTaskEvent?: (event: TaskStatusEvent) => void;
+  },
+): Promise<TaskResponse> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${jobId}/tasks/${taskId}/events`);
+    const finish = () => {
+      source.close();
+      fetchJson<TaskResponse>(`/api/jobs/${jobId}/tasks/${taskId}`)
+        .then((task) => {
+          if (task.status === "failed") {
+            reject(new Error(task.error ?? "生成タスクが失敗しました。"));
+            return;
+          }
+          resolve(task);
+        })
+        .catch(reject);
+    };
+
+    source.addEventListener("snapshot", (event) => {
+      const task = JSON.parse((event as MessageEvent<string>).data) as TaskResponse;
+      handlers.onSnapshot?.(task);
+      if (isTaskFinished(task.status)) {
+        finish();
+      }
+    });
+    source.addEventListener("page", (event) => {
+      handlers.onPageEvent?.(JSON.parse((event as MessageEvent<string>).data) as TaskPageEvent);
+    });
+    source.addEventListener("task", (event) => {
+      const payload = JSON.parse((event as MessageEvent<string>).data) as TaskStatusEvent;
+      handlers.onTaskEvent?.(payload);
+      if (isTaskFinished(payload.status)) {
+        finish();
+      }
+    });
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error("生成進捗の受信に失敗しました。"));
+      }
+    };
+  });
+}
+
+function toPreviewResult(result: RunResult): PreviewGeneratedResult {
+  return {
+    page: result.page,
+    status: result.status,
+    imageUrl: result.imageUrl ?? null,
+    promptFile: result.promptFile,
+    outputImageFile: result.outputImageFile,
+    responseJsonFile: result.responseJsonFile,
+    logoLock: result.logoLock,
+    cached: result.cached,
+    feedback: result.feedback,
+    brandCheck: result.brandCheck,
+    error: result.error,
+  };
+}
+
+// 正常終了（STOP）でテキストも安全性の指摘もない応答は表示しない。
+function hasFeedbackDetails(feedback?: ResultFeedback): feedback is ResultFeedback {
+  if (!feedback) {
+    return false;
+  }
+  return (
+    feedback.textParts.length > 0 ||
+    Boolean(feedback.blockReason) ||
+    feedback.blockedCategories.length > 0 ||
+    Boolean(feedback.finishReason && feedback.finishReason !== "STOP")
+  );
+}
+
+function isBlockedFeedback(feedback?: ResultFeedback): boolean {
+  return Boolean(feedback && (feedback.blockReason || feedback.blockedCategories.length > 0));
+}
+
+function formatUsage(totals: UsageTotals, limitUsd: number | null = null): string {
+  const limit = limitUsd === null ? "" : ` / 上限 $${limitUsd.toFixed(2)}`;
+  return `$${totals.estimatedCostUsd.toFixed(2)}${limit}（画像 ${totals.imageCount}枚 / ${totals.totalTokens.toLocaleString()} tokens）`;
+}
+
 function parsePageSelectionLocal(value: string, maxPage: number): number[] {
   const tokens = value
     .split(",")
@@ -300,6 +695,34 @@ function normalizeJob(payload: JobResponse): JobResponse {
   };
 }
 
+/**
+ * 進捗イベントで届いたページの結果を手元の実行履歴に差し込む。同じページ・版の結果は置き換える。
+ */
+function mergeRunResult(
+  job: JobResponse | null,
+  jobId: string,
+  runId: string,
+  result: RunResult,
+): JobResponse | null {
+  if (!job || job.jobId !== jobId) {
+    return job;
+  }
+  return {
+    ...job,
+    runs: (job.runs ?? []).map((run) =>
+      run.runId === runId
+        ? {
+            ...run,
+            results: [
+              ...run.results.filter((row) => row.page !== result.page || row.version !== result.version),
+              result,
+            ].sort((a, b) => a.page - b.page || a.version - b.version),
+          }
+        : run,
+    ),
+  };
+}
+
 function openDesignPopupWindow(): Window | null {
   return window.open(
     DESIGN_REFERENCE_URL,
@@ -308,15 +731,26 @@ function openDesignPopupWindow(): Window | null {
   );
 }
 
-function buildFinalDeckSnapshots(runs: Run[]): FinalDeckSnapshot[] {
+function buildFinalDeckSnapshots(
+  runs: Run[],
+  chosenVersions: Record<string, number> = {},
+): FinalDeckSnapshot[] {
   const sortedRuns = [...runs].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
   const latestByPage = new Map<number, DisplayResult>();
+  const pinnedPages = new Set<number>();
   const snapshots: FinalDeckSnapshot[] = [];
 
   for (const run of sortedRuns) {
     run.results.forEach((result, index) => {
       const previous = latestByPage.get(result.page);
+      if (pinnedPages.has(result.page)) {
+        return;
+      }
       if (result.status === "success" && result.imageUrl && result.outputImageFile) {
+        // 採用版が指定されたページは、その版が現れた時点で固定する。
+        if (chosenVersions[String(result.page)] === result.version) {
+          pinnedPages.add(result.page);
+        }
         latestByPage.set(result.page, {
           id: `${run.runId}_${result.page}_${index}`,
           page: result.page,
@@ -324,9 +758,13 @@ function buildFinalDeckSnapshots(runs: Run[]): FinalDeckSnapshot[] {
           imageUrl: result.imageUrl,
           outputImageFile: result.outputImageFile,
           source: run.type,
+          version: result.version,
           versionLabel: `v${result.version}`,
           runId: run.runId,
           logoLock: result.logoLock,
+          cached: result.cached,
+          feedback: result.feedback,
+          brandCheck: result.brandCheck,
           error: undefined,
         });
         return;
@@ -336,12 +774,14 @@ function buildFinalDeckSnapshots(runs: Run[]): FinalDeckSnapshot[] {
         latestByPage.set(result.page, {
           id: `${run.runId}_${result.page}_${index}`,
           page: result.page,
-          status: "error",
+          status: result.status === "cancelled" ? "cancelled" : "error",
           imageUrl: null,
           source: run.type,
+          version: result.version,
           versionLabel: `v${result.version}`,
           runId: run.runId,
           logoLock: result.logoLock,
+          feedback: result.feedback,
           error: result.error,
         });
       }
@@ -371,14 +811,33 @@ export default function HomePage() {
   const [manualExclusionRows, setManualExclusionRows] = useState<ManualExclusionRow[]>([]);
   const [editRows, setEditRows] = useState<EditRow[]>([createEditRow()]);
   const [regenerateSelection, setRegenerateSelection] = useState("");
+  const [roleSelection, setRoleSelection] = useState("");
+  const [bulkRole, setBulkRole] = useState<PageRole | "">("");
   const [previewResults, setPreviewResults] = useState<PreviewGeneratedResult[]>([]);
   const [displayMode, setDisplayMode] = useState<"preview" | "final" | null>(null);
   const [finalHistoryCursor, setFinalHistoryCursor] = useState<number | null>(null);
   const [selectedResultId, setSelectedResultId] = useState<string | null>(null);
+  const [maskDrawMode, setMaskDrawMode] = useState(false);
+  const [maskRectsByResult, setMaskRectsByResult] = useState<Record<string, MaskRect[]>>({});
+  const [maskDraft, setMaskDraft] = useState<MaskDraft | null>(null);
   const [loadingOperation, setLoadingOperation] = useState<LoadingOperation | null>(null);
   const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
   const [statusText, setStatusText] = useState("");
+  const [taskProgress, setTaskProgress] = useState<TaskProgress | null>(null);
   const [errorText, setErrorText] = useState("");
+  const [imageProviders, setImageProviders] = useState<ImageProviderOption[]>([]);
+  const [imageProvider, setImageProvider] = useState("");
+  const [imageModel, setImageModel] = useState("");
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>([]);
+  const [brandKits, setBrandKits] = useState<BrandKitOption[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState("");
+  const [presetName, setPresetName] = useState("");
+  const [imageSize, setImageSize] = useState<ImageSize>("2K");
+  const [variants, setVariants] = useState(1);
+  const [reuseIfUnchanged, setReuseIfUnchanged] = useState(false);
+  const [usage, setUsage] = useState<UsageResponse | null>(null);
+  const [overrideSpendingLimits, setOverrideSpendingLimits] = useState(false);
+  const [batchMode, setBatchMode] = useState(false);
   const manualSaveTimerRef = useRef<Record<string, number>>({});
   const manualRowsRef = useRef<ManualExclusionRow[]>([]);
 
@@ -386,7 +845,8 @@ export default function HomePage() {
   const isImageGenerationRunning =
     loadingOperation === "design-check" ||
     loadingOperation === "generate" ||
-    loadingOperation === "regenerate";
+    loadingOperation === "regenerate" ||
+    loadingOperation === "retry";
 
   useEffect(() => {
     manualRowsRef.current = manualExclusionRows;
@@ -422,6 +882,18 @@ export default function HomePage() {
       if (parsed.displayMode === "preview" || parsed.displayMode === "final" || parsed.displayMode === null) {
         setDisplayMode(parsed.displayMode);
       }
+      if (typeof parsed.imageModel === "string") {
+        setImageModel(parsed.imageModel);
+      }
+      if (parsed.imageSize && IMAGE_SIZE_OPTIONS.includes(parsed.imageSize)) {
+        setImageSize(parsed.imageSize);
+      }
+      if (typeof parsed.variants === "number" && VARIANT_OPTIONS.includes(parsed.variants)) {
+        setVariants(parsed.variants);
+      }
+      if (typeof parsed.reuseIfUnchanged === "boolean") {
+        setReuseIfUnchanged(parsed.reuseIfUnchanged);
+      }
 
       if (parsed.jobId) {
         fetchJson<JobResponse>(`/api/jobs/${parsed.jobId}`)
@@ -446,6 +918,7 @@ export default function HomePage() {
               })),
             );
             setStatusText("前回の作業状態を復元しました。");
+            reconnectRunningTask(normalized);
           })
           .catch(() => {
             window.sessionStorage.removeItem(UI_STATE_STORAGE_KEY);
@@ -464,13 +937,68 @@ export default function HomePage() {
       memoDecisions,
       editRows,
       displayMode,
+      imageModel,
+      imageSize,
+      variants,
+      reuseIfUnchanged,
     };
     window.sessionStorage.setItem(UI_STATE_STORAGE_KEY, JSON.stringify(data));
-  }, [job?.jobId, designPrompt, regenerateSelection, memoDecisions, editRows, displayMode]);
+  }, [
+    job?.jobId,
+    designPrompt,
+    regenerateSelection,
+    memoDecisions,
+    editRows,
+    displayMode,
+    imageModel,
+    imageSize,
+    variants,
+    reuseIfUnchanged,
+  ]);
+
+  useEffect(() => {
+    fetchJson<StylePresetListResponse>("/api/style-presets")
+      .then((payload) => setStylePresets(payload.presets))
+      .catch(() => setStylePresets([]));
+    fetchJson<BrandKitListResponse>("/api/brand-kits")
+      .then((payload) => setBrandKits(payload.brandKits))
+      .catch(() => setBrandKits([]));
+  }, []);
+
+  useEffect(() => {
+    if (!job?.jobId) {
+      return;
+    }
+
+    fetchJson<ImageProviderResponse>(`/api/jobs/${job.jobId}/provider`)
+      .then((payload) => {
+        setImageProviders(payload.providers);
+        setImageProvider(payload.provider);
+        const selected = payload.providers.find((row) => row.id === payload.provider);
+        setImageModel((prev) => (selected && !selected.models.includes(prev) ? selected.defaultModel : prev));
+      })
+      .catch(() => {
+        setImageProviders([]);
+      });
+  }, [job?.jobId]);
+
+  useEffect(() => {
+    if (!job?.jobId || isImageGenerationRunning) {
+      return;
+    }
+
+    fetchJson<UsageResponse>(`/api/usage?jobId=${encodeURIComponent(job.jobId)}`)
+      .then(setUsage)
+      .catch(() => setUsage(null));
+  }, [job?.jobId, isImageGenerationRunning]);
 
   const runs = useMemo(() => (Array.isArray(job?.runs) ? job.runs : []), [job]);
   const runById = useMemo(() => new Map(runs.map((run) => [run.runId, run])), [runs]);
-  const finalDeckSnapshots = useMemo(() => buildFinalDeckSnapshots(runs), [runs]);
+  const chosenVersions = useMemo(() => job?.chosenVersions ?? {}, [job]);
+  const finalDeckSnapshots = useMemo(
+    () => buildFinalDeckSnapshots(runs, chosenVersions),
+    [runs, chosenVersions],
+  );
 
   useEffect(() => {
     if (finalDeckSnapshots.length === 0) {
@@ -518,6 +1046,9 @@ export default function HomePage() {
       imageUrl: result.imageUrl,
       source: "preview",
       logoLock: result.logoLock,
+      cached: result.cached,
+      feedback: result.feedback,
+      brandCheck: result.brandCheck,
       error: result.error,
     }));
   }, [previewResults]);
@@ -542,17 +1073,48 @@ export default function HomePage() {
     return rightResults.find((result) => result.id === selectedResultId) ?? rightResults[0];
   }, [rightResults, selectedResultId]);
 
+  const canDrawMask = displayMode === "final" && selectedResult?.status === "success" && Boolean(selectedResult.imageUrl);
+  const selectedMaskRects = selectedResult ? (maskRectsByResult[selectedResult.id] ?? []) : [];
+
+  const selectedVariants = useMemo<VariantCandidate[]>(() => {
+    if (displayMode !== "final" || !selectedResult?.runId) {
+      return [];
+    }
+    const run = runById.get(selectedResult.runId);
+    if (!run) {
+      return [];
+    }
+    return run.results.flatMap((result, index) =>
+      result.page === selectedResult.page && result.status === "success" && result.imageUrl
+        ? [{ id: `${run.runId}_${result.page}_${index}`, version: result.version, imageUrl: result.imageUrl }]
+        : [],
+    );
+  }, [displayMode, runById, selectedResult]);
+
   const hasGeneratedResults = finalDisplayResults.length > 0;
+  const latestRun = runs.length > 0 ? runs[runs.length - 1] : null;
+  const retryablePageCount =
+    latestRun && latestRun.status !== "running"
+      ? latestRun.results.filter((result) => result.status === "error" || result.status === "cancelled")
+          .length
+      : 0;
   const canUndoOneStep = displayMode === "final" && finalSnapshotIndex > 0;
+  const slideFrameStyle = { aspectRatio: (job?.aspectRatio ?? "16:9").replace(":", " / ") };
   const historyLabel =
     finalSnapshotIndex >= 0 ? `${finalSnapshotIndex + 1}/${finalDeckSnapshots.length}` : "0/0";
   const activeImageModelName = activeFinalSnapshot
     ? runById.get(activeFinalSnapshot.runId)?.model
     : null;
+  const selectedProvider = imageProviders.find((row) => row.id === imageProvider);
+  // モデルが対応していないサイズ（Flash の 2K/4K など）は選べないので、対応サイズの先頭で送る。
+  const availableImageSizes = selectedProvider?.modelImageSizes[imageModel] ?? IMAGE_SIZE_OPTIONS;
+  const effectiveImageSize = availableImageSizes.includes(imageSize) ? imageSize : availableImageSizes[0];
   const imageModelLabel =
     displayMode === "final" && activeImageModelName
       ? `Image: ${activeImageModelName}`
-      : DEFAULT_IMAGE_MODEL_LABEL;
+      : imageModel
+        ? `Image: ${imageModel} (${effectiveImageSize})`
+        : DEFAULT_IMAGE_MODEL_LABEL;
 
   useEffect(() => {
     if (rightResults.length === 0) {
@@ -916,6 +1478,130 @@ export default function HomePage() {
     return ok;
   };
 
+  const followTask = (
+    jobId: string,
+    taskId: string,
+    label: string,
+    onResult: (result: RunResult) => void,
+  ): Promise<TaskResponse> =>
+    watchTask(jobId, taskId, {
+      onSnapshot: (task) => {
+        const pageStages: TaskProgress["pageStages"] = {};
+        for (const page of task.pages) {
+          pageStages[page] = "queued";
+        }
+        for (const result of task.results) {
+          pageStages[result.page] = result.status === "success" ? "saved" : result.status;
+          onResult(result);
+        }
+        setTaskProgress({
+          jobId,
+          taskId,
+          label,
+          status: task.status,
+          completedPages: task.completedPages,
+          totalPages: task.totalPages,
+          pages: task.pages,
+          pageStages,
+          batchState: task.batchState,
+        });
+      },
+      onPageEvent: (event) => {
+        setTaskProgress((prev) =>
+          prev
+            ? {
+                ...prev,
+                completedPages: event.result ? prev.completedPages + 1 : prev.completedPages,
+                pageStages: { ...prev.pageStages, [event.page]: event.stage },
+              }
+            : prev,
+        );
+        if (event.result) {
+          onResult(event.result);
+        }
+      },
+      onTaskEvent: (event) => {
+        setTaskProgress((prev) =>
+          prev
+            ? {
+                ...prev,
+                status: event.status,
+                completedPages: event.completedPages,
+                totalPages: event.totalPages,
+                batchState: event.batchState,
+              }
+            : prev,
+        );
+      },
+    });
+
+  const handleCancelTask = async () => {
+    if (!taskProgress) {
+      return;
+    }
+
+    setStatusText("生成を中止しています...");
+    try {
+      await fetchJson<{ ok: boolean }>(
+        `/api/jobs/${taskProgress.jobId}/tasks/${taskProgress.taskId}/cancel`,
+        { method: "POST" },
+      );
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : "生成の中止に失敗しました。");
+    }
+  };
+
+  const describeCancelledTask = (task: TaskResponse): string => {
+    const done = task.results.filter((result) => result.status === "success").length;
+    return `生成を中止しました。（完了 ${done}/${task.totalPages} ページ、残りは中止扱い）`;
+  };
+
+  // タブを開き直す前に始めた生成がまだ実行中なら、進捗の受信と中止ボタンをつなぎ直す。
+  const reconnectRunningTask = useEffectEvent((restored: JobResponse) => {
+    const running = [...(restored.runs ?? [])].reverse().find((run) => run.status === "running" && run.taskId);
+    if (!running?.taskId) {
+      return;
+    }
+
+    const label = RUN_PROGRESS_LABELS[running.type];
+    setLoadingOperation(running.type);
+    setStatusText(label);
+    followTask(restored.jobId, running.taskId, label, showFinalResultsProgressively(restored.jobId, running.runId))
+      .then(async (task) => {
+        await refreshJob(restored.jobId);
+        setDisplayMode("final");
+        setFinalHistoryCursor(FINAL_CURSOR_LATEST);
+        setStatusText(
+          task.status === "cancelled"
+            ? describeCancelledTask(task)
+            : "実行中だった生成が完了しました。右側の結果を更新しました。",
+        );
+      })
+      .catch((error) => {
+        setErrorText(error instanceof Error ? error.message : "生成に失敗しました。");
+      })
+      .finally(() => {
+        setLoadingOperation(null);
+        setTaskProgress(null);
+      });
+  });
+
+  // 届いたページの結果だけを手元の履歴に差し込む。実行の記録がまだ手元にない最初の1件だけジョブを読み直す。
+  // 閲覧中の履歴の位置は動かさず、完了時に最新へ戻す。
+  const showFinalResultsProgressively = (jobId: string, runId: string) => {
+    let loaded = false;
+    return (result: RunResult) => {
+      if (loaded) {
+        setJob((prev) => mergeRunResult(prev, jobId, runId, result));
+        return;
+      }
+      loaded = true;
+      void refreshJob(jobId)
+        .then(() => setDisplayMode("final"))
+        .catch(() => undefined);
+    };
+  };
+
   const handleDesignCheck = async () => {
     if (!job) {
       setErrorText("先にPowerPointファイルを選択してください。");
@@ -935,28 +1621,52 @@ export default function HomePage() {
     setStatusText("デザイン確認用に2枚生成しています...");
 
     try {
-      const payload = await fetchJson<DesignCheckResponse>("/api/design/check", {
+      const accepted = await fetchJson<TaskAcceptedResponse>("/api/design/check", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           jobId: job.jobId,
           designPrompt,
           memoDecisions,
+          model: imageModel || undefined,
+          imageSize: effectiveImageSize,
+          reuseIfUnchanged,
+          overrideSpendingLimits,
         }),
       });
+      setPreviewResults([]);
+      const task = await followTask(
+        job.jobId,
+        accepted.taskId,
+        "デザイン確認用に2枚生成しています...",
+        (result) => {
+          setPreviewResults((prev) =>
+            [...prev.filter((row) => row.page !== result.page), toPreviewResult(result)].sort(
+              (a, b) => a.page - b.page,
+            ),
+          );
+          setDisplayMode("preview");
+        },
+      );
 
-      setPreviewResults(payload.results);
+      const results = task.results.map(toPreviewResult);
+      setPreviewResults(results);
       setDisplayMode("preview");
-      setSelectedResultId(payload.results[0] ? `preview_${payload.results[0].page}_0` : null);
-      setStatusText("デザイン確認用の2枚を生成しました。右側で確認してください。");
+      setSelectedResultId(results[0] ? `preview_${results[0].page}_0` : null);
+      setStatusText(
+        task.status === "cancelled"
+          ? describeCancelledTask(task)
+          : "デザイン確認用の2枚を生成しました。右側で確認してください。",
+      );
     } catch (error) {
       setErrorText(error instanceof Error ? error.message : "デザイン確認の生成に失敗しました。");
     } finally {
       setLoadingOperation(null);
+      setTaskProgress(null);
     }
   };
 
-  const handleGenerate = async () => {
+  const handleGenerate = async (onlyChanged = false) => {
     if (!job) {
       setErrorText("先にPowerPointファイルを選択してください。");
       return;
@@ -970,13 +1680,14 @@ export default function HomePage() {
       return;
     }
 
+    const progressLabel = onlyChanged ? "変更のあったページを生成しています..." : "本生成しています...";
     setLoadingOperation("generate");
     setErrorText("");
-    setStatusText("本生成しています...");
+    setStatusText(progressLabel);
 
     try {
       const pageSelection = `1-${job.slideCount}`;
-      await fetchJson<{ runId: string }>("/api/generate", {
+      const accepted = await fetchJson<GenerateAcceptedResponse>("/api/generate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -984,17 +1695,41 @@ export default function HomePage() {
           pageSelection,
           designPrompt,
           memoDecisions,
+          model: imageModel || undefined,
+          imageSize: effectiveImageSize,
+          variants,
+          reuseIfUnchanged,
+          overrideSpendingLimits,
+          onlyChanged,
+          batch: batchMode && selectedProvider?.id === "gemini",
         }),
       });
+      if (accepted.taskId === null) {
+        setStatusText("前回の生成から変更のあるページはありません。");
+        return;
+      }
+      const task = await followTask(
+        job.jobId,
+        accepted.taskId,
+        progressLabel,
+        showFinalResultsProgressively(job.jobId, accepted.runId),
+      );
 
       await refreshJob(job.jobId);
       setDisplayMode("final");
       setFinalHistoryCursor(FINAL_CURSOR_LATEST);
-      setStatusText("本生成が完了しました。右側の結果を更新しました。");
+      setStatusText(
+        task.status === "cancelled"
+          ? describeCancelledTask(task)
+          : accepted.skippedPages.length > 0
+            ? `変更のあった ${accepted.pages.length} ページを生成しました（${accepted.skippedPages.length} ページは変更なしのため維持）。`
+            : "本生成が完了しました。右側の結果を更新しました。",
+      );
     } catch (error) {
       setErrorText(error instanceof Error ? error.message : "本生成に失敗しました。");
     } finally {
       setLoadingOperation(null);
+      setTaskProgress(null);
     }
   };
 
@@ -1008,6 +1743,9 @@ export default function HomePage() {
       .map((row) => ({
         page: Number(row.page),
         fixPrompt: row.fixPrompt.trim(),
+        continueFromCurrent: Boolean(row.continueFromCurrent),
+        maskRects: row.maskRects?.length ? row.maskRects : undefined,
+        maskBaseVersion: row.maskRects?.length ? row.maskBaseVersion : undefined,
       }))
       .filter((row) => row.page > 0 && row.fixPrompt.length > 0);
 
@@ -1025,73 +1763,395 @@ export default function HomePage() {
     setStatusText("修正ページを再生成しています...");
 
     try {
-      await fetchJson<{ runId: string }>("/api/regenerate", {
+      const accepted = await fetchJson<TaskAcceptedResponse>("/api/regenerate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           jobId: job.jobId,
           designPrompt,
           memoDecisions,
+          model: imageModel || undefined,
+          imageSize: effectiveImageSize,
+          variants,
+          reuseIfUnchanged,
+          overrideSpendingLimits,
           edits,
         }),
       });
+      const task = await followTask(
+        job.jobId,
+        accepted.taskId,
+        "修正ページを再生成しています...",
+        showFinalResultsProgressively(job.jobId, accepted.runId),
+      );
 
       await refreshJob(job.jobId);
       setDisplayMode("final");
       setFinalHistoryCursor(FINAL_CURSOR_LATEST);
-      setStatusText("再生成が完了しました。右側の結果を更新しました。");
+      setStatusText(
+        task.status === "cancelled"
+          ? describeCancelledTask(task)
+          : "再生成が完了しました。右側の結果を更新しました。",
+      );
     } catch (error) {
       setErrorText(error instanceof Error ? error.message : "再生成に失敗しました。");
     } finally {
       setLoadingOperation(null);
+      setTaskProgress(null);
     }
   };
 
-  const handleSaveManualExclusion = async (rowId: string) => {
-    const saved = await saveManualExclusionById(rowId);
-    if (!saved) {
-      setErrorText("手動除外の保存に失敗しました。行内ステータスを確認してください。");
+  const handleImageProviderChange = async (event: ChangeEvent<HTMLSelectElement>) => {
+    if (!job) {
+      return;
+    }
+
+    const previous = imageProvider;
+    setImageProvider(event.target.value);
+    setErrorText("");
+    try {
+      const payload = await fetchJson<ImageProviderResponse>(`/api/jobs/${job.jobId}/provider`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ provider: event.target.value }),
+      });
+      setImageProvider(payload.provider);
+      setImageModel(payload.providers.find((row) => row.id === payload.provider)?.defaultModel ?? "");
+    } catch (error) {
+      setImageProvider(previous);
+      setErrorText(error instanceof Error ? error.message : "画像生成プロバイダーの保存に失敗しました。");
     }
   };
 
-  const handleDeleteManualExclusion = async (rowId: string) => {
-    if (!job) {
+  const handleApplyStylePreset = async () => {
+    const preset = stylePresets.find((row) => row.presetId === selectedPresetId);
+    if (!job || !preset) {
       return;
     }
 
-    clearManualSaveTimer(rowId);
-    const row = manualRowsRef.current.find((item) => item.id === rowId);
-    if (!row) {
-      return;
+    setLoadingOperation("style-preset");
+    setErrorText("");
+    try {
+      const payload = await fetchJson<StylePresetApplyResponse>(
+        `/api/style-presets/${encodeURIComponent(preset.presetId)}/apply`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ jobId: job.jobId }),
+        },
+      );
+      setDesignPrompt(payload.preset.designPrompt);
+      // 推奨モデルが今のプロバイダーで使えないときは、モデルだけ今の選択のままにする。
+      if (payload.preset.model && selectedProvider?.models.includes(payload.preset.model)) {
+        setImageModel(payload.preset.model);
+      }
+      if (payload.preset.imageSize) {
+        setImageSize(payload.preset.imageSize);
+      }
+      await refreshJob(job.jobId);
+      setStatusText(`スタイルプリセット「${payload.preset.name}」を適用しました。`);
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : "スタイルプリセットの適用に失敗しました。");
+    } finally {
+      setLoadingOperation(null);
     }
+  };
 
-    if (row.id.startsWith("tmp_")) {
-      setManualExclusionRows((prev) => prev.filter((item) => item.id !== row.id));
+  const handleSaveStylePreset = async () => {
+    if (!job) {
+      return;
+    }
+    if (!presetName.trim() || !designPrompt.trim()) {
+      setErrorText("プリセット名と全体デザインプロンプトを入力してください。");
       return;
     }
 
+    setLoadingOperation("style-preset");
     setErrorText("");
-    setStatusText("手動除外を削除しています...");
     try {
-      await fetchJson<ManualMemoDeleteResponse>("/api/memo/manual/delete", {
+      const payload = await fetchJson<StylePresetSaveResponse>("/api/style-presets", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           jobId: job.jobId,
-          id: row.id,
+          name: presetName.trim(),
+          designPrompt,
+          model: imageModel || undefined,
+          imageSize: effectiveImageSize,
         }),
       });
-      setManualExclusionRows((prev) => prev.filter((item) => item.id !== row.id));
-      setStatusText("手動除外を削除しました。");
+      setStylePresets(payload.presets);
+      setSelectedPresetId(payload.preset.presetId);
+      setPresetName("");
+      setStatusText(
+        `スタイルプリセット「${payload.preset.name}」を保存しました。（参考画像 ${payload.preset.designReferenceFiles.length} 件 / ロゴ ${payload.preset.logoReferenceFiles.length} 件）`,
+      );
     } catch (error) {
-      setErrorText(error instanceof Error ? error.message : "手動除外の削除に失敗しました。");
+      setErrorText(error instanceof Error ? error.message : "スタイルプリセットの保存に失敗しました。");
+    } finally {
+      setLoadingOperation(null);
     }
   };
 
-  const applyOverlapFixPreset = (rowId: string) => {
-    setEditRows((prev) =>
-      prev.map((row) => {
-        if (row.id !== rowId) {
+  const handleDeleteStylePreset = async () => {
+    const preset = stylePresets.find((row) => row.presetId === selectedPresetId);
+    if (!preset || !window.confirm(`スタイルプリセット「${preset.name}」を削除しますか？（全員のプリセット一覧から消えます）`)) {
+      return;
+    }
+
+    setErrorText("");
+    try {
+      const payload = await fetchJson<StylePresetListResponse>(
+        `/api/style-presets/${encodeURIComponent(preset.presetId)}`,
+        { method: "DELETE" },
+      );
+      setStylePresets(payload.presets);
+      setSelectedPresetId("");
+      setStatusText(`スタイルプリセット「${preset.name}」を削除しました。`);
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : "スタイルプリセットの削除に失敗しました。");
+    }
+  };
+
+  const saveSlideSettings = async (
+    pages: number[],
+    patch: { role?: PageRole | null; designPromptOverride?: string | null },
+  ): Promise<boolean> => {
+    if (!job) {
+      return false;
+    }
+
+    setErrorText("");
+    try {
+      const payload = await fetchJson<SlideSettingsResponse>(`/api/jobs/${job.jobId}/slides`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pages, ...patch }),
+      });
+      const rows = new Map(payload.slides.map((row) => [row.page, row]));
+      setJob((prev) =>
+        prev
+          ? {
+              ...prev,
+              slides: prev.slides.map((slide) => {
+                const row = rows.get(slide.page);
+                return row
+                  ? { ...slide, role: row.role ?? undefined, designPromptOverride: row.designPromptOverride ?? undefined }
+                  : slide;
+              }),
+            }
+          : prev,
+      );
+      return true;
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : "ページ設定の保存に失敗しました。");
+      return false;
+    }
+  };
+
+  const handleApplyBulkRole = async () => {
+    if (!job) {
+      return;
+    }
+
+    const pages = parsePageSelectionLocal(roleSelection, job.slideCount);
+    if (pages.length === 0) {
+      setErrorText("役割を設定するページの指定が不正です。例: 1-3,7,9");
+      return;
+    }
+    if (await saveSlideSettings(pages, { role: bulkRole || null })) {
+      setStatusText(
+        `${pages.length} ページの役割を${bulkRole ? `「${PAGE_ROLE_LABELS[bulkRole]}」に設定` : "未設定に戻"}しました。`,
+      );
+    }
+  };
+
+  const handleSuggestRoles = async () => {
+    if (!job) {
+      return;
+    }
+
+    setErrorText("");
+    try {
+      const payload = await fetchJson<RoleSuggestionResponse>(`/api/jobs/${job.jobId}/slides/classify`, {
+        method: "POST",
+      });
+      const suggestions = new Map(payload.slides.map((row) => [row.page, row.roleSuggestion ?? undefined]));
+      setJob((prev) =>
+        prev
+          ? {
+              ...prev,
+              slides: prev.slides.map((slide) => ({ ...slide, roleSuggestion: suggestions.get(slide.page) })),
+            }
+          : prev,
+      );
+      setStatusText("ページの役割を判定しました。提案を確認して採用してください。");
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : "ページの役割の判定に失敗しました。");
+    }
+  };
+
+  /**
+   * 役割が未設定のページに提案をそのまま採用する。提案の役割ごとにまとめて保存する。
+   */
+  const handleAcceptRoleSuggestions = async () => {
+    if (!job) {
+      return;
+    }
+
+    const pagesByRole = new Map<PageRole, number[]>();
+    for (const slide of job.slides) {
+      if (!slide.role && slide.roleSuggestion) {
+        pagesByRole.set(slide.roleSuggestion.role, [
+          ...(pagesByRole.get(slide.roleSuggestion.role) ?? []),
+          slide.page,
+        ]);
+      }
+    }
+    let accepted = 0;
+    for (const [role, pages] of pagesByRole) {
+      if (!(await saveSlideSettings(pages, { role }))) {
+        return;
+      }
+      accepted += pages.length;
+    }
+    setStatusText(`${accepted} ページに役割の提案を採用しました。`);
+  };
+
+  const handleBrandKitChange = async (event: ChangeEvent<HTMLSelectElement>) => {
+    if (!job) {
+      return;
+    }
+
+    setErrorText("");
+    try {
+      const payload = await fetchJson<{ ok: boolean; brandKitId: string | null }>(
+        `/api/jobs/${job.jobId}/brand-kit`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ brandKitId: event.target.value || null }),
+        },
+      );
+      setJob((prev) => (prev ? { ...prev, brandKitId: payload.brandKitId ?? undefined } : prev));
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : "ブランドキットの設定に失敗しました。");
+    }
+  };
+
+  const handleChooseVersion = async (candidate: VariantCandidate, page: number) => {
+    if (!job) {
+      return;
+    }
+
+    setErrorText("");
+    try {
+      const isChosen = chosenVersions[String(page)] === candidate.version;
+      const payload = await fetchJson<ChosenVersionResponse>(`/api/jobs/${job.jobId}/chosen-version`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ page, version: isChosen ? null : candidate.version }),
+      });
+      setJob((prev) => (prev ? { ...prev, chosenVersions: payload.chosenVersions } : prev));
+      setFinalHistoryCursor(FINAL_CURSOR_LATEST);
+      setSelectedResultId(candidate.id);
+      setStatusText(
+        isChosen
+          ? `ページ ${page} の採用版を解除しました。`
+          : `ページ ${page} は v${candidate.version} を資料に採用します。`,
+      );
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : "採用版の保存に失敗しました。");
+    }
+  };
+
+  const handleRetryFailedPages = async () => {
+    if (!job) {
+      setErrorText("先にPowerPointファイルを選択してください。");
+      return;
+    }
+
+    setLoadingOperation("retry");
+    setErrorText("");
+    setStatusText("失敗ページを再試行しています...");
+
+    try {
+      const accepted = await fetchJson<TaskAcceptedResponse>("/api/retry-failed", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jobId: job.jobId, overrideSpendingLimits }),
+      });
+      const task = await followTask(
+        job.jobId,
+        accepted.taskId,
+        "失敗ページを再試行しています...",
+        showFinalResultsProgressively(job.jobId, accepted.runId),
+      );
+
+      await refreshJob(job.jobId);
+      setDisplayMode("final");
+      setFinalHistoryCursor(FINAL_CURSOR_LATEST);
+      const stillFailed = task.results.filter((result) => result.status !== "success").length;
+      setStatusText(
+        task.status === "cancelled"
+          ? describeCancelledTask(task)
+          : stillFailed > 0
+            ? `再試行が完了しました。${stillFailed} ページは再び失敗しました。`
+            : "失敗ページの再試行が完了しました。",
+      );
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : "失敗ページの再試行に失敗しました。");
+    } finally {
+      setLoadingOperation(null);
+      setTaskProgress(null);
+    }
+  };
+
+  const handleSaveManualExclusion = async (rowId: string) => {
+    const saved = await saveManualExclusionById(rowId);
+    if (!saved) {
+      setErrorText("手動除外の保存に失敗しました。行内ステータスを確認してください。");
+    }
+  };
+
+  const handleDeleteManualExclusion = async (rowId: string) => {
+    if (!job) {
+      return;
+    }
+
+    clearManualSaveTimer(rowId);
+    const row = manualRowsRef.current.find((item) => item.id === rowId);
+    if (!row) {
+      return;
+    }
+
+    if (row.id.startsWith("tmp_")) {
+      setManualExclusionRows((prev) => prev.filter((item) => item.id !== row.id));
+      return;
+    }
+
+    setErrorText("");
+    setStatusText("手動除外を削除しています...");
+    try {
+      await fetchJson<ManualMemoDeleteResponse>("/api/memo/manual/delete", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          jobId: job.jobId,
+          id: row.id,
+        }),
+      });
+      setManualExclusionRows((prev) => prev.filter((item) => item.id !== row.id));
+      setStatusText("手動除外を削除しました。");
+    } catch (error) {
+      setErrorText(error instanceof Error ? error.message : "手動除外の削除に失敗しました。");
+    }
+  };
+
+  const applyOverlapFixPreset = (rowId: string) => {
+    setEditRows((prev) =>
+      prev.map((row) => {
+        if (row.id !== rowId) {
           return row;
         }
         const nextText = row.fixPrompt.trim()
@@ -1102,6 +2162,67 @@ export default function HomePage() {
     );
   };
 
+  const handleMaskPointerDown = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (!maskDrawMode || !selectedResult) {
+      return;
+    }
+    const point = pointerRatio(event);
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setMaskDraft({
+      resultId: selectedResult.id,
+      startX: point.x,
+      startY: point.y,
+      rect: { x: point.x, y: point.y, width: 0, height: 0 },
+    });
+  };
+
+  const handleMaskPointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    if (!maskDraft) {
+      return;
+    }
+    const point = pointerRatio(event);
+    setMaskDraft({ ...maskDraft, rect: rectFromPoints(maskDraft.startX, maskDraft.startY, point.x, point.y) });
+  };
+
+  const handleMaskPointerUp = () => {
+    if (!maskDraft) {
+      return;
+    }
+    const { resultId, rect } = maskDraft;
+    setMaskDraft(null);
+    // クリックだけで出来るごく小さな矩形は範囲として扱わない。
+    if (rect.width < MIN_MASK_RATIO || rect.height < MIN_MASK_RATIO) {
+      return;
+    }
+    setMaskRectsByResult((prev) => ({ ...prev, [resultId]: [...(prev[resultId] ?? []), rect] }));
+  };
+
+  const handleClearMask = () => {
+    if (!selectedResult) {
+      return;
+    }
+    setMaskRectsByResult((prev) => {
+      const next = { ...prev };
+      delete next[selectedResult.id];
+      return next;
+    });
+  };
+
+  const handleAddMaskEditRow = () => {
+    if (!selectedResult || selectedMaskRects.length === 0) {
+      return;
+    }
+    const row = {
+      ...createEditRow(String(selectedResult.page)),
+      maskRects: selectedMaskRects,
+      maskBaseVersion: selectedResult.version,
+    };
+    setEditRows((prev) => [...prev.filter((item) => item.page.trim() || item.fixPrompt.trim()), row]);
+    setMaskDrawMode(false);
+    setStatusText(`page ${selectedResult.page} の修正範囲（${selectedMaskRects.length} 箇所）で修正行を追加しました。`);
+    setErrorText("");
+  };
+
   const handleUndoOneStep = () => {
     if (!activeFinalSnapshot || finalSnapshotIndex <= 0) {
       return;
@@ -1220,6 +2341,58 @@ export default function HomePage() {
             {fileName ? <p className="small">選択中: {fileName}</p> : null}
           </div>
 
+          <div className="row">
+            <label className="fieldLabel" htmlFor="stylePreset">
+              スタイルプリセット
+            </label>
+            <div className="buttonRow">
+              <select
+                id="stylePreset"
+                className="input"
+                value={selectedPresetId}
+                onChange={(event) => setSelectedPresetId(event.target.value)}
+                disabled={loading}
+              >
+                <option value="">プリセットを選択</option>
+                {stylePresets.map((preset) => (
+                  <option key={preset.presetId} value={preset.presetId}>
+                    {preset.name}
+                    {preset.model || preset.imageSize
+                      ? `（${[preset.model, preset.imageSize].filter(Boolean).join(" / ")}）`
+                      : ""}
+                  </option>
+                ))}
+              </select>
+              <button className="btn" onClick={handleApplyStylePreset} disabled={loading || !job || !selectedPresetId}>
+                適用する
+              </button>
+              <button className="btn btnDanger" onClick={handleDeleteStylePreset} disabled={loading || !selectedPresetId}>
+                削除
+              </button>
+            </div>
+            <p className="small">
+              デザインプロンプト・参考画像・ロゴ・推奨モデル/サイズをまとめて読み込みます。プリセットはすべてのジョブで共有されます。
+            </p>
+            {job ? (
+              <div className="buttonRow">
+                <input
+                  className="input"
+                  value={presetName}
+                  onChange={(event) => setPresetName(event.target.value)}
+                  placeholder="例: A社 定例報告"
+                  aria-label="新しいプリセット名"
+                />
+                <button
+                  className="btn"
+                  onClick={handleSaveStylePreset}
+                  disabled={loading || !presetName.trim() || !designPrompt.trim()}
+                >
+                  現在の設定をプリセットとして保存
+                </button>
+              </div>
+            ) : null}
+          </div>
+
           <div className="row">
             <label className="fieldLabel" htmlFor="designPrompt">
               全体デザインプロンプト
@@ -1233,6 +2406,249 @@ export default function HomePage() {
             />
           </div>
 
+          {job ? (
+            <div className="row">
+              <label className="fieldLabel" htmlFor="roleSelection">
+                ページの役割・個別デザイン
+              </label>
+              <div className="buttonRow">
+                <input
+                  id="roleSelection"
+                  className="input"
+                  value={roleSelection}
+                  onChange={(event) => setRoleSelection(event.target.value)}
+                  placeholder="例: 1,5,9 / 2-4"
+                />
+                <select
+                  className="input"
+                  value={bulkRole}
+                  onChange={(event) => setBulkRole(event.target.value as PageRole | "")}
+                  aria-label="設定する役割"
+                >
+                  <option value="">未設定</option>
+                  {Object.entries(PAGE_ROLE_LABELS).map(([role, label]) => (
+                    <option key={role} value={role}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <button className="btn" onClick={handleApplyBulkRole} disabled={loading || !roleSelection.trim()}>
+                  役割をまとめて設定
+                </button>
+              </div>
+              <div className="buttonRow">
+                <button className="btn" onClick={handleSuggestRoles} disabled={loading}>
+                  役割を自動判定
+                </button>
+                <button
+                  className="btn"
+                  onClick={handleAcceptRoleSuggestions}
+                  disabled={loading || !job.slides.some((slide) => !slide.role && slide.roleSuggestion)}
+                >
+                  未設定のページに提案を採用
+                </button>
+              </div>
+              <p className="small">
+                表紙・セクション扉・表などの役割に合わせた扱いを指示に加えます。自動判定はテキスト枠の配置と量から役割を推定するだけなので、ページごとの提案を確認してから採用してください。個別デザインを入力したページは、全体デザインプロンプトの代わりにそちらを使います。
+              </p>
+              <details>
+                <summary className="small">
+                  ページごとに設定（役割 {job.slides.filter((slide) => slide.role).length}/{job.slideCount} ページ・個別デザイン{" "}
+                  {job.slides.filter((slide) => slide.designPromptOverride).length} ページ）
+                </summary>
+                <div className="memoList" style={{ marginTop: 8 }}>
+                  {job.slides.map((slide) => (
+                    <div key={slide.page} className="memoItem">
+                      <div className="buttonRow" style={{ justifyContent: "space-between" }}>
+                        <strong>ページ {slide.page}</strong>
+                        <select
+                          className="input"
+                          style={{ width: "auto" }}
+                          value={slide.role ?? ""}
+                          onChange={(event) =>
+                            void saveSlideSettings([slide.page], { role: (event.target.value as PageRole) || null })
+                          }
+                          disabled={loading}
+                          aria-label={`ページ ${slide.page} の役割`}
+                        >
+                          <option value="">役割: 未設定</option>
+                          {Object.entries(PAGE_ROLE_LABELS).map(([role, label]) => (
+                            <option key={role} value={role}>
+                              役割: {label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      {slide.roleSuggestion ? (
+                        <div className="buttonRow">
+                          <span className="pill" title={slide.roleSuggestion.reason}>
+                            提案: {PAGE_ROLE_LABELS[slide.roleSuggestion.role]}（確信度{" "}
+                            {Math.round(slide.roleSuggestion.confidence * 100)}%）
+                          </span>
+                          <span className="small">{slide.roleSuggestion.reason}</span>
+                          {slide.role !== slide.roleSuggestion.role ? (
+                            <button
+                              className="btn btnCompact"
+                              onClick={() =>
+                                slide.roleSuggestion
+                                  ? void saveSlideSettings([slide.page], { role: slide.roleSuggestion.role })
+                                  : undefined
+                              }
+                              disabled={loading}
+                            >
+                              提案を採用
+                            </button>
+                          ) : null}
+                        </div>
+                      ) : null}
+                      <textarea
+                        key={`${job.jobId}_${slide.page}_${slide.designPromptOverride ?? ""}`}
+                        className="textarea"
+                        rows={2}
+                        defaultValue={slide.designPromptOverride ?? ""}
+                        onBlur={(event) => {
+                          const value = event.currentTarget.value.trim();
+                          if (value !== (slide.designPromptOverride ?? "")) {
+                            void saveSlideSettings([slide.page], { designPromptOverride: value || null });
+                          }
+                        }}
+                        placeholder="このページだけのデザイン指定（空なら全体デザインプロンプト）"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </details>
+            </div>
+          ) : null}
+
+          {job && imageProviders.length > 0 ? (
+            <div className="row">
+              <label className="fieldLabel" htmlFor="imageProvider">
+                画像生成プロバイダー
+              </label>
+              <select
+                id="imageProvider"
+                className="input"
+                value={imageProvider}
+                onChange={handleImageProviderChange}
+                disabled={loading}
+              >
+                {imageProviders.map((provider) => (
+                  <option key={provider.id} value={provider.id}>
+                    {provider.label}（{provider.defaultModel}）
+                  </option>
+                ))}
+              </select>
+              <p className="small">このジョブの生成・再生成・デザイン確認で使うバックエンドです。</p>
+            </div>
+          ) : null}
+
+          {job ? (
+            <div className="row">
+              <label className="fieldLabel" htmlFor="brandKit">
+                ブランドキット
+              </label>
+              <select
+                id="brandKit"
+                className="input"
+                value={job.brandKitId ?? ""}
+                onChange={handleBrandKitChange}
+                disabled={loading}
+              >
+                <option value="">使わない</option>
+                {brandKits.map((kit) => (
+                  <option key={kit.brandKitId} value={kit.brandKitId}>
+                    {kit.name}（{kit.colors.map((color) => color.hex).join(" ")}）
+                  </option>
+                ))}
+              </select>
+              <p className="small">
+                ブランドカラー・フォント・トーンを指示に加え、生成後に各ページの主要色がブランドカラーから外れていないかを確認します（キットの登録は設定画面）。
+              </p>
+            </div>
+          ) : null}
+
+          {job && selectedProvider ? (
+            <div className="row">
+              <label className="fieldLabel" htmlFor="imageModel">
+                モデル・画像サイズ
+              </label>
+              <div className="buttonRow">
+                <select
+                  id="imageModel"
+                  className="input"
+                  value={imageModel}
+                  onChange={(event) => setImageModel(event.target.value)}
+                  disabled={loading}
+                >
+                  {selectedProvider.models.map((model) => (
+                    <option key={model} value={model}>
+                      {model}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  id="imageSize"
+                  className="input"
+                  value={effectiveImageSize}
+                  onChange={(event) => setImageSize(event.target.value as ImageSize)}
+                  disabled={loading}
+                  aria-label="画像サイズ"
+                >
+                  {availableImageSizes.map((size) => (
+                    <option key={size} value={size}>
+                      {size}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  id="variants"
+                  className="input"
+                  value={variants}
+                  onChange={(event) => setVariants(Number(event.target.value))}
+                  disabled={loading}
+                  aria-label="候補数"
+                >
+                  {VARIANT_OPTIONS.map((count) => (
+                    <option key={count} value={count}>
+                      候補 {count} 枚/ページ
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <p className="small">下書きは軽量モデル・1K、最終版は高品質モデル・4Kのように使い分けられます。</p>
+              <label className="small" style={{ display: "inline-flex", alignItems: "center", gap: 8 }}>
+                <input
+                  type="checkbox"
+                  checked={reuseIfUnchanged}
+                  onChange={(event) => setReuseIfUnchanged(event.target.checked)}
+                  disabled={loading}
+                />
+                入力が前回と同じページは保存済みの画像を再利用する（API呼び出しを省略・候補1枚のときのみ）
+              </label>
+              <label className="small" style={{ display: "inline-flex", alignItems: "center", gap: 8 }}>
+                <input
+                  type="checkbox"
+                  checked={overrideSpendingLimits}
+                  onChange={(event) => setOverrideSpendingLimits(event.target.checked)}
+                  disabled={loading}
+                />
+                利用上限を超えても生成する（管理者のみ）
+              </label>
+              {selectedProvider.id === "gemini" ? (
+                <label className="small" style={{ display: "inline-flex", alignItems: "center", gap: 8 }}>
+                  <input
+                    type="checkbox"
+                    checked={batchMode}
+                    onChange={(event) => setBatchMode(event.target.checked)}
+                    disabled={loading}
+                  />
+                  本生成をバッチで送信する（料金半額・完了まで最大24時間。画面を閉じても処理は続きます）
+                </label>
+              ) : null}
+            </div>
+          ) : null}
+
           <div className="row">
             <label className="fieldLabel" htmlFor="logoReferenceFiles">
               ロゴマーク画像（任意・複数可）
@@ -1313,15 +2729,49 @@ export default function HomePage() {
             <button className="btn btnPreview" onClick={handleDesignCheck} disabled={loading || !job}>
               デザインを確認する
             </button>
-            <button className="btn btnPrimary" onClick={handleGenerate} disabled={loading || !job}>
+            <button className="btn btnPrimary" onClick={() => handleGenerate()} disabled={loading || !job}>
               本生成する
             </button>
+            <button
+              className="btn"
+              onClick={() => handleGenerate(true)}
+              disabled={loading || !job || !hasGeneratedResults}
+              title="デザインプロンプト・メモ除外・入力画像が前回の生成から変わったページだけを生成します"
+            >
+              変更ページのみ生成
+            </button>
           </div>
 
           {isImageGenerationRunning ? (
             <div className="progressRow">
               <span className="spinner" aria-hidden="true" />
-              <span className="small">画像を生成中です。完了までお待ちください。</span>
+              <span className="small">
+                {taskProgress
+                  ? taskProgress.status === "queued"
+                    ? `${taskProgress.label}（順番待ち）`
+                    : taskProgress.batchState && taskProgress.batchState !== "succeeded"
+                      ? `${taskProgress.label}（バッチ${BATCH_STATE_LABELS[taskProgress.batchState]}）`
+                      : `${taskProgress.label} (${taskProgress.completedPages}/${taskProgress.totalPages})`
+                  : "画像を生成中です。完了までお待ちください。"}
+              </span>
+              {taskProgress ? (
+                <button className="btn btnDanger btnCompact" type="button" onClick={handleCancelTask}>
+                  中止する
+                </button>
+              ) : null}
+            </div>
+          ) : null}
+
+          {isImageGenerationRunning && taskProgress ? (
+            <div className="taskProgressList">
+              {taskProgress.pages.map((page) => {
+                const stage = taskProgress.pageStages[page] ?? "queued";
+                return (
+                  <span key={page} className={`pill taskStage ${stage}`}>
+                    p{page} {PAGE_STAGE_LABELS[stage]}
+                  </span>
+                );
+              })}
             </div>
           ) : null}
 
@@ -1503,6 +2953,14 @@ export default function HomePage() {
           {hasGeneratedResults ? (
             <>
               <h3 className="sectionTitle">3. 修正・再生成</h3>
+              {retryablePageCount > 0 ? (
+                <div className="buttonRow" style={{ marginBottom: 8 }}>
+                  <span className="small">最新の生成で失敗・中止したページ: {retryablePageCount}件</span>
+                  <button className="btn btnSecondary" onClick={handleRetryFailedPages} disabled={loading}>
+                    失敗ページを再試行
+                  </button>
+                </div>
+              ) : null}
               <div className="row">
                 <label className="fieldLabel" htmlFor="regenerateSelection">
                   再生成対象ページ（範囲 + 個別）
@@ -1566,6 +3024,42 @@ export default function HomePage() {
                       placeholder="例: タイトルを短くする。図を2段レイアウトに変更する。"
                     />
                   </div>
+                  <label className="small" style={{ display: "inline-flex", alignItems: "center", gap: 8 }}>
+                    <input
+                      type="checkbox"
+                      checked={Boolean(row.continueFromCurrent)}
+                      onChange={(event) =>
+                        setEditRows((prev) =>
+                          prev.map((item) =>
+                            item.id === row.id ? { ...item, continueFromCurrent: event.target.checked } : item,
+                          ),
+                        )
+                      }
+                      disabled={loading}
+                    />
+                    現在の画像から続けて修正する（これまでの修正指示を会話として引き継ぐ）
+                  </label>
+                  {row.maskRects?.length ? (
+                    <div className="buttonRow">
+                      <span className="small">
+                        修正範囲: {row.maskRects.length} 箇所（範囲外は
+                        {row.maskBaseVersion ? ` 範囲を描いた v${row.maskBaseVersion} ` : "現在の画像"}のまま）
+                      </span>
+                      <button
+                        className="btn"
+                        onClick={() =>
+                          setEditRows((prev) =>
+                            prev.map((item) =>
+                              item.id === row.id ? { ...item, maskRects: undefined, maskBaseVersion: undefined } : item,
+                            ),
+                          )
+                        }
+                        disabled={loading}
+                      >
+                        範囲を解除
+                      </button>
+                    </div>
+                  ) : null}
                   <div className="buttonRow">
                     <button className="btn" onClick={() => applyOverlapFixPreset(row.id)} disabled={loading}>
                       重なり抑制プリセット
@@ -1604,6 +3098,23 @@ export default function HomePage() {
                   PowerPoint出力
                 </button>
               </div>
+              {usage ? (
+                <div className="usagePanel">
+                  <strong>利用量（推定）</strong>
+                  {usage.runs.length > 0 ? (
+                    <p className="small">
+                      最新の実行: {formatUsage(usage.runs[usage.runs.length - 1].totals)}
+                    </p>
+                  ) : null}
+                  {usage.job ? (
+                    <p className="small">このジョブ: {formatUsage(usage.job, usage.limits.perJobUsd)}</p>
+                  ) : null}
+                  <p className="small">本日: {formatUsage(usage.day.totals, usage.limits.perDayUsd)}</p>
+                  <p className="small">
+                    今月（{usage.month.month}）: {formatUsage(usage.month.totals, usage.limits.perMonthUsd)}
+                  </p>
+                </div>
+              ) : null}
             </>
           ) : null}
         </section>
@@ -1644,6 +3155,14 @@ export default function HomePage() {
                       <div className="buttonRow">
                         <span className="pill">{result.source === "preview" ? "design-check" : result.source}</span>
                         {result.source === "regenerate" ? <span className="pill pillRegen">再生成</span> : null}
+                        {result.status === "cancelled" ? <span className="pill pillCancelled">中止</span> : null}
+                        {result.cached ? <span className="pill">再利用</span> : null}
+                        {isBlockedFeedback(result.feedback) ? (
+                          <span className="pill pillLogoLockError">安全性ブロック</span>
+                        ) : null}
+                        {result.brandCheck?.flagged ? (
+                          <span className="pill pillLogoLockError">配色ずれ</span>
+                        ) : null}
                         {result.logoLock?.applied && result.logoLock.verified ? (
                           <span className="pill pillLogoLock">ロゴ固定</span>
                         ) : null}
@@ -1652,7 +3171,7 @@ export default function HomePage() {
                         ) : null}
                       </div>
                     </div>
-                    <div className="slideFrame slideFrameSmall">
+                    <div className="slideFrame slideFrameSmall" style={slideFrameStyle}>
                       {result.status === "success" && result.imageUrl ? (
                         <Image
                           src={result.imageUrl}
@@ -1662,7 +3181,9 @@ export default function HomePage() {
                           className="slideImage"
                         />
                       ) : (
-                        <div className="slideFallback">生成失敗</div>
+                        <div className="slideFallback">
+                          {result.status === "cancelled" ? "中止" : "生成失敗"}
+                        </div>
                       )}
                     </div>
                   </button>
@@ -1680,6 +3201,7 @@ export default function HomePage() {
                     </strong>
                     <div className="buttonRow">
                       {selectedResult.source === "regenerate" ? <span className="pill pillRegen">再生成</span> : null}
+                      {selectedResult.cached ? <span className="pill">再利用</span> : null}
                       {selectedResult.logoLock?.applied && selectedResult.logoLock.verified ? (
                         <span className="pill pillLogoLock">ロゴ固定</span>
                       ) : null}
@@ -1690,7 +3212,7 @@ export default function HomePage() {
                     </div>
                   </div>
 
-                  <div className="slideFrame slideFrameLarge">
+                  <div className="slideFrame slideFrameLarge" style={slideFrameStyle}>
                     {selectedResult.status === "success" && selectedResult.imageUrl ? (
                       <Image
                         src={selectedResult.imageUrl}
@@ -1702,12 +3224,123 @@ export default function HomePage() {
                     ) : (
                       <div className="slideFallback">{selectedResult.error ?? "生成に失敗しました"}</div>
                     )}
+                    {canDrawMask && (maskDrawMode || selectedMaskRects.length > 0) ? (
+                      <div
+                        className={`maskOverlay ${maskDrawMode ? "isDrawing" : ""}`}
+                        onPointerDown={handleMaskPointerDown}
+                        onPointerMove={handleMaskPointerMove}
+                        onPointerUp={handleMaskPointerUp}
+                        onPointerCancel={() => setMaskDraft(null)}
+                      >
+                        {selectedMaskRects.map((rect, index) => (
+                          <div key={index} className="maskRect" style={maskRectStyle(rect)} />
+                        ))}
+                        {maskDraft && maskDraft.resultId === selectedResult.id ? (
+                          <div className="maskRect isDraft" style={maskRectStyle(maskDraft.rect)} />
+                        ) : null}
+                      </div>
+                    ) : null}
                   </div>
+                  {canDrawMask ? (
+                    <div className="buttonRow">
+                      <button className="btn" onClick={() => setMaskDrawMode((prev) => !prev)} disabled={loading}>
+                        {maskDrawMode ? "範囲の指定を終える" : "修正範囲を指定"}
+                      </button>
+                      <button className="btn" onClick={handleClearMask} disabled={selectedMaskRects.length === 0}>
+                        範囲をクリア
+                      </button>
+                      <button
+                        className="btn btnSecondary"
+                        onClick={handleAddMaskEditRow}
+                        disabled={loading || selectedMaskRects.length === 0}
+                      >
+                        この範囲で修正行を追加
+                      </button>
+                      {maskDrawMode ? <span className="small">画像の上をドラッグして修正したい範囲を囲んでください。</span> : null}
+                    </div>
+                  ) : null}
                   {selectedResult.logoLock?.applied && selectedResult.logoLock.message ? (
                     <p className={selectedResult.logoLock.verified ? "small" : "error"}>
                       {selectedResult.logoLock.message}
                     </p>
                   ) : null}
+                  {hasFeedbackDetails(selectedResult.feedback) ? (
+                    <div className="feedbackPanel">
+                      <p className="small">
+                        終了理由: {selectedResult.feedback.finishReason ?? "不明"}
+                        {selectedResult.feedback.blockReason
+                          ? ` / ブロック理由: ${selectedResult.feedback.blockReason}`
+                          : ""}
+                      </p>
+                      {selectedResult.feedback.blockedCategories.length > 0 ? (
+                        <p className="error">
+                          ブロックされたカテゴリ: {selectedResult.feedback.blockedCategories.join("、")}
+                        </p>
+                      ) : null}
+                      {selectedResult.feedback.textParts.map((text, index) => (
+                        <p key={index} className="small feedbackText">
+                          {text}
+                        </p>
+                      ))}
+                    </div>
+                  ) : null}
+                  {selectedResult.brandCheck ? (
+                    <div className="feedbackPanel">
+                      <p className={selectedResult.brandCheck.flagged ? "error" : "small"}>
+                        ブランドカラー確認: {selectedResult.brandCheck.message}
+                      </p>
+                      <div className="buttonRow">
+                        {selectedResult.brandCheck.dominantColors.map((color) => (
+                          <span
+                            key={color.hex}
+                            className={`brandSwatch ${color.offPalette ? "isOffPalette" : ""}`}
+                            title={
+                              color.neutral
+                                ? "無彩色"
+                                : `最も近いブランドカラー: ${color.nearestBrandHex ?? "なし"}（色差 ${color.distance ?? "-"}）`
+                            }
+                          >
+                            <span className="brandSwatchColor" style={{ background: color.hex }} />
+                            {color.hex} {Math.round(color.share * 100)}%
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  ) : null}
+                  {selectedVariants.length > 1 ? (
+                    <div className="variantGrid">
+                      {selectedVariants.map((candidate) => {
+                        const isChosen = chosenVersions[String(selectedResult.page)] === candidate.version;
+                        return (
+                          <div
+                            key={candidate.id}
+                            className={`variantItem ${candidate.id === selectedResult.id ? "isActive" : ""}`}
+                          >
+                            <div className="slideFrame slideFrameSmall" style={slideFrameStyle}>
+                              <Image
+                                src={candidate.imageUrl}
+                                alt={`page ${selectedResult.page} v${candidate.version}`}
+                                fill
+                                unoptimized
+                                className="slideImage"
+                              />
+                            </div>
+                            <div className="buttonRow" style={{ justifyContent: "space-between" }}>
+                              <span className="small">v{candidate.version}</span>
+                              <button
+                                className={`btn btnCompact ${isChosen ? "btnPrimary" : ""}`}
+                                type="button"
+                                onClick={() => handleChooseVersion(candidate, selectedResult.page)}
+                                disabled={loading}
+                              >
+                                {isChosen ? "採用中" : "この案を採用"}
+                              </button>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ) : null}
                 </>
               ) : (
                 <p className="small">サムネイルを選択すると、ここに拡大表示されます。</p>
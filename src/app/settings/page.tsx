@@ -17,12 +17,199 @@ type TestPayload = {
   error?: string;
 };
 
+type GenerationSettingsPayload = {
+  concurrency: number;
+  maxConcurrency: number;
+};
+
+type ModelPrice = {
+  inputUsdPerMillionTokens: number;
+  outputUsdPerMillionTokens: number;
+};
+
+type PricingPayload = {
+  prices: Record<string, ModelPrice>;
+};
+
+type ImageProviderSettingsPayload = {
+  provider: string;
+  envOverride: string | null;
+  providers: Array<{ id: string; label: string }>;
+};
+
+type RateLimitsPayload = {
+  limits: Record<string, number>;
+};
+
+type SpendingLimitsPayload = {
+  perJobUsd: number | null;
+  perDayUsd: number | null;
+  perMonthUsd: number | null;
+};
+
+type SpendingLimitKey = keyof SpendingLimitsPayload;
+
+const SPENDING_LIMIT_FIELDS: Array<{ key: SpendingLimitKey; label: string }> = [
+  { key: "perJobUsd", label: "1ジョブあたり（USD）" },
+  { key: "perDayUsd", label: "1日あたり（USD）" },
+  { key: "perMonthUsd", label: "1か月あたり（USD）" },
+];
+
+type PromptTemplateVersionInfo = {
+  version: number;
+  createdAt: string;
+  note?: string;
+};
+
+type PromptTemplateRecord = {
+  templateId: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  versions: PromptTemplateVersionInfo[];
+};
+
+type PromptTemplatesPayload = {
+  activeTemplateId: string;
+  defaultTemplate: { templateId: string; name: string; body: string };
+  templates: PromptTemplateRecord[];
+  placeholders: Array<{ name: string; description: string }>;
+};
+
+type PromptTemplateBodyPayload = {
+  ok: boolean;
+  error?: string;
+  template?: { templateId: string; version: number; body: string };
+};
+
+type PromptTemplateEditor = {
+  templateId: string;
+  version: number;
+  name: string;
+  body: string;
+};
+
+function latestTemplateVersion(template: PromptTemplateRecord): number {
+  return template.versions.reduce((max, row) => Math.max(max, row.version), 0);
+}
+
+/**
+ * 編集欄に表示するテンプレート本文。組み込みの標準テンプレートは名前を空にして、新しいテンプレート名の入力を促す。
+ */
+async function loadPromptTemplateForEditing(
+  payload: PromptTemplatesPayload,
+  templateId: string,
+  version?: number,
+): Promise<PromptTemplateEditor> {
+  if (templateId === payload.defaultTemplate.templateId) {
+    return { templateId, version: 1, name: "", body: payload.defaultTemplate.body };
+  }
+
+  const record = payload.templates.find((template) => template.templateId === templateId);
+  const query = version ? `?version=${version}` : "";
+  const response = await fetch(`/api/settings/prompt-templates/${encodeURIComponent(templateId)}${query}`);
+  const body = (await response.json()) as PromptTemplateBodyPayload;
+  if (!response.ok || !body.template) {
+    throw new Error(body.error ?? "プロンプトテンプレートの取得に失敗しました。");
+  }
+  return { templateId, version: body.template.version, name: record?.name ?? "", body: body.template.body };
+}
+
+type BrandKitRecord = {
+  brandKitId: string;
+  name: string;
+  colors: Array<{ hex: string; name?: string }>;
+  fonts: string[];
+  toneRules: string[];
+  maxColorDistance: number;
+  maxOffPaletteShare: number;
+};
+
+type BrandKitsPayload = {
+  ok: boolean;
+  error?: string;
+  brandKit?: BrandKitRecord;
+  brandKits?: BrandKitRecord[];
+};
+
+type BrandKitEditor = {
+  brandKitId: string;
+  name: string;
+  colors: string;
+  fonts: string;
+  toneRules: string;
+  maxColorDistance: string;
+  maxOffPalettePercent: string;
+};
+
+const EMPTY_BRAND_KIT_EDITOR: BrandKitEditor = {
+  brandKitId: "",
+  name: "",
+  colors: "",
+  fonts: "",
+  toneRules: "",
+  maxColorDistance: "25",
+  maxOffPalettePercent: "20",
+};
+
+/**
+ * 編集欄は1行1項目のテキストで持つ。色は「#RRGGBB 名前」の形式。
+ */
+function toBrandKitEditor(kit: BrandKitRecord | undefined): BrandKitEditor {
+  if (!kit) {
+    return EMPTY_BRAND_KIT_EDITOR;
+  }
+  return {
+    brandKitId: kit.brandKitId,
+    name: kit.name,
+    colors: kit.colors.map((color) => [color.hex, color.name].filter(Boolean).join(" ")).join("\n"),
+    fonts: kit.fonts.join("\n"),
+    toneRules: kit.toneRules.join("\n"),
+    maxColorDistance: String(kit.maxColorDistance),
+    maxOffPalettePercent: String(Math.round(kit.maxOffPaletteShare * 100)),
+  };
+}
+
+function splitLines(value: string): string[] {
+  return value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+type PriceRow = {
+  model: string;
+  input: string;
+  output: string;
+};
+
 export default function SettingsPage() {
   const [apiKey, setApiKey] = useState("");
   const [status, setStatus] = useState<StatusPayload | null>(null);
   const [message, setMessage] = useState("");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
+  const [concurrency, setConcurrency] = useState("1");
+  const [maxConcurrency, setMaxConcurrency] = useState(8);
+  const [priceRows, setPriceRows] = useState<PriceRow[]>([]);
+  const [providerSettings, setProviderSettings] = useState<ImageProviderSettingsPayload | null>(null);
+  const [defaultProvider, setDefaultProvider] = useState("");
+  const [rateLimitInputs, setRateLimitInputs] = useState<Record<string, string>>({});
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplatesPayload | null>(null);
+  const [templateEditor, setTemplateEditor] = useState<PromptTemplateEditor>({
+    templateId: "",
+    version: 0,
+    name: "",
+    body: "",
+  });
+  const [templateNote, setTemplateNote] = useState("");
+  const [brandKits, setBrandKits] = useState<BrandKitRecord[]>([]);
+  const [brandKitEditor, setBrandKitEditor] = useState<BrandKitEditor>(EMPTY_BRAND_KIT_EDITOR);
+  const [limitInputs, setLimitInputs] = useState<Record<SpendingLimitKey, string>>({
+    perJobUsd: "",
+    perDayUsd: "",
+    perMonthUsd: "",
+  });
 
   const fetchStatus = async () => {
     const response = await fetch("/api/settings/api-key/status");
@@ -30,8 +217,75 @@ export default function SettingsPage() {
     setStatus(payload);
   };
 
+  const fetchGenerationSettings = async () => {
+    const response = await fetch("/api/settings/generation");
+    const payload = (await response.json()) as GenerationSettingsPayload;
+    setConcurrency(String(payload.concurrency));
+    setMaxConcurrency(payload.maxConcurrency);
+  };
+
+  const fetchPricing = async () => {
+    const response = await fetch("/api/settings/pricing");
+    const payload = (await response.json()) as PricingPayload;
+    setPriceRows(
+      Object.entries(payload.prices).map(([model, price]) => ({
+        model,
+        input: String(price.inputUsdPerMillionTokens),
+        output: String(price.outputUsdPerMillionTokens),
+      })),
+    );
+  };
+
+  const fetchImageProviderSettings = async () => {
+    const response = await fetch("/api/settings/image-provider");
+    const payload = (await response.json()) as ImageProviderSettingsPayload;
+    setProviderSettings(payload);
+    setDefaultProvider(payload.provider);
+  };
+
+  const fetchRateLimits = async () => {
+    const response = await fetch("/api/settings/rate-limits");
+    const payload = (await response.json()) as RateLimitsPayload;
+    setRateLimitInputs(
+      Object.fromEntries(Object.entries(payload.limits).map(([model, rpm]) => [model, String(rpm)])),
+    );
+  };
+
+  const fetchSpendingLimits = async () => {
+    const response = await fetch("/api/settings/spending-limits");
+    const payload = (await response.json()) as SpendingLimitsPayload;
+    setLimitInputs({
+      perJobUsd: payload.perJobUsd === null ? "" : String(payload.perJobUsd),
+      perDayUsd: payload.perDayUsd === null ? "" : String(payload.perDayUsd),
+      perMonthUsd: payload.perMonthUsd === null ? "" : String(payload.perMonthUsd),
+    });
+  };
+
+  const fetchPromptTemplates = async (templateId?: string) => {
+    const response = await fetch("/api/settings/prompt-templates");
+    const payload = (await response.json()) as PromptTemplatesPayload;
+    setPromptTemplates(payload);
+    setTemplateEditor(await loadPromptTemplateForEditing(payload, templateId ?? payload.activeTemplateId));
+    setTemplateNote("");
+  };
+
+  const fetchBrandKits = async (brandKitId?: string) => {
+    const response = await fetch("/api/brand-kits");
+    const payload = (await response.json()) as BrandKitsPayload;
+    const kits = payload.brandKits ?? [];
+    setBrandKits(kits);
+    setBrandKitEditor(toBrandKitEditor(kits.find((kit) => kit.brandKitId === brandKitId) ?? kits[0]));
+  };
+
   useEffect(() => {
     void fetchStatus();
+    void fetchGenerationSettings();
+    void fetchImageProviderSettings();
+    void fetchPricing();
+    void fetchRateLimits();
+    void fetchSpendingLimits();
+    void fetchPromptTemplates();
+    void fetchBrandKits();
   }, []);
 
   const handleSave = async () => {
@@ -84,6 +338,292 @@ export default function SettingsPage() {
     }
   };
 
+  const handleSaveGenerationSettings = async () => {
+    setLoading(true);
+    setMessage("");
+    setError("");
+
+    try {
+      const response = await fetch("/api/settings/generation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ concurrency: Number(concurrency) }),
+      });
+      const payload = (await response.json()) as GenerationSettingsPayload & {
+        ok: boolean;
+        error?: string;
+      };
+      if (!response.ok) {
+        throw new Error(payload.error ?? "生成設定の保存に失敗しました。");
+      }
+
+      setConcurrency(String(payload.concurrency));
+      setMessage(`同時生成数を ${payload.concurrency} に設定しました。`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "生成設定の保存に失敗しました。");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveDefaultProvider = async () => {
+    setLoading(true);
+    setMessage("");
+    setError("");
+
+    try {
+      const response = await fetch("/api/settings/image-provider", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ provider: defaultProvider }),
+      });
+      const payload = (await response.json()) as ImageProviderSettingsPayload & { ok: boolean; error?: string };
+      if (!response.ok) {
+        throw new Error(payload.error ?? "既定の画像生成プロバイダーの保存に失敗しました。");
+      }
+      setProviderSettings(payload);
+      setDefaultProvider(payload.provider);
+      setMessage("既定の画像生成プロバイダーを保存しました。");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "既定の画像生成プロバイダーの保存に失敗しました。");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updatePriceRow = (model: string, patch: Partial<PriceRow>) => {
+    setPriceRows((prev) => prev.map((row) => (row.model === model ? { ...row, ...patch } : row)));
+  };
+
+  const handleSavePricing = async () => {
+    setLoading(true);
+    setMessage("");
+    setError("");
+
+    try {
+      const prices = Object.fromEntries(
+        priceRows.map((row) => [
+          row.model,
+          {
+            inputUsdPerMillionTokens: Number(row.input),
+            outputUsdPerMillionTokens: Number(row.output),
+          },
+        ]),
+      );
+      const response = await fetch("/api/settings/pricing", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ prices }),
+      });
+      const payload = (await response.json()) as PricingPayload & { ok: boolean; error?: string };
+      if (!response.ok) {
+        throw new Error(payload.error ?? "単価表の保存に失敗しました。");
+      }
+      setMessage("単価表を保存しました。");
+      await fetchPricing();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "単価表の保存に失敗しました。");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveRateLimits = async () => {
+    setLoading(true);
+    setMessage("");
+    setError("");
+
+    try {
+      const limits = Object.fromEntries(
+        Object.entries(rateLimitInputs).map(([model, rpm]) => [model, Number(rpm)]),
+      );
+      const response = await fetch("/api/settings/rate-limits", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ limits }),
+      });
+      const payload = (await response.json()) as RateLimitsPayload & { ok: boolean; error?: string };
+      if (!response.ok) {
+        throw new Error(payload.error ?? "レート制限の保存に失敗しました。");
+      }
+      setMessage("レート制限を保存しました。");
+      await fetchRateLimits();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "レート制限の保存に失敗しました。");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveSpendingLimits = async () => {
+    setLoading(true);
+    setMessage("");
+    setError("");
+
+    try {
+      const toLimit = (value: string) => (value.trim() ? Number(value) : null);
+      const response = await fetch("/api/settings/spending-limits", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          perJobUsd: toLimit(limitInputs.perJobUsd),
+          perDayUsd: toLimit(limitInputs.perDayUsd),
+          perMonthUsd: toLimit(limitInputs.perMonthUsd),
+        }),
+      });
+      const payload = (await response.json()) as { ok: boolean; error?: string };
+      if (!response.ok) {
+        throw new Error(payload.error ?? "利用上限の保存に失敗しました。");
+      }
+      setMessage("利用上限を保存しました。");
+      await fetchSpendingLimits();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "利用上限の保存に失敗しました。");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runPromptTemplateAction = async (action: () => Promise<string>, fallbackError: string) => {
+    setLoading(true);
+    setMessage("");
+    setError("");
+
+    try {
+      setMessage(await action());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSelectPromptTemplate = (templateId: string, version?: number) => {
+    if (!promptTemplates) {
+      return;
+    }
+    void runPromptTemplateAction(async () => {
+      setTemplateEditor(await loadPromptTemplateForEditing(promptTemplates, templateId, version));
+      setTemplateNote("");
+      return "";
+    }, "プロンプトテンプレートの取得に失敗しました。");
+  };
+
+  const handleSavePromptTemplateVersion = () =>
+    runPromptTemplateAction(async () => {
+      const response = await fetch(`/api/settings/prompt-templates/${encodeURIComponent(templateEditor.templateId)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: templateEditor.name || undefined, body: templateEditor.body, note: templateNote || undefined }),
+      });
+      const payload = (await response.json()) as { ok: boolean; error?: string; template?: PromptTemplateRecord };
+      if (!response.ok || !payload.template) {
+        throw new Error(payload.error ?? "プロンプトテンプレートの保存に失敗しました。");
+      }
+      await fetchPromptTemplates(templateEditor.templateId);
+      return `「${payload.template.name}」を v${latestTemplateVersion(payload.template)} として保存しました。`;
+    }, "プロンプトテンプレートの保存に失敗しました。");
+
+  const handleCreatePromptTemplate = () =>
+    runPromptTemplateAction(async () => {
+      const name = templateEditor.name.trim() || window.prompt("新しいテンプレートの名前", "")?.trim();
+      if (!name) {
+        return "";
+      }
+      const response = await fetch("/api/settings/prompt-templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, body: templateEditor.body, note: templateNote || undefined }),
+      });
+      const payload = (await response.json()) as { ok: boolean; error?: string; template?: PromptTemplateRecord };
+      if (!response.ok || !payload.template) {
+        throw new Error(payload.error ?? "プロンプトテンプレートの保存に失敗しました。");
+      }
+      await fetchPromptTemplates(payload.template.templateId);
+      return `新しいテンプレート「${payload.template.name}」を保存しました。`;
+    }, "プロンプトテンプレートの保存に失敗しました。");
+
+  const handleActivatePromptTemplate = () =>
+    runPromptTemplateAction(async () => {
+      const response = await fetch("/api/settings/prompt-templates/active", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ templateId: templateEditor.templateId }),
+      });
+      const payload = (await response.json()) as PromptTemplatesPayload & { ok: boolean; error?: string };
+      if (!response.ok) {
+        throw new Error(payload.error ?? "使用するプロンプトテンプレートの保存に失敗しました。");
+      }
+      setPromptTemplates(payload);
+      return "以降の生成でこのテンプレートの最新版を使います。";
+    }, "使用するプロンプトテンプレートの保存に失敗しました。");
+
+  const handleSaveBrandKit = async () => {
+    setLoading(true);
+    setMessage("");
+    setError("");
+
+    try {
+      const colors = splitLines(brandKitEditor.colors).map((line) => {
+        const [hex, ...name] = line.split(/\s+/);
+        return { hex, name: name.join(" ") || undefined };
+      });
+      const response = await fetch("/api/brand-kits", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          brandKitId: brandKitEditor.brandKitId || undefined,
+          name: brandKitEditor.name,
+          colors,
+          fonts: splitLines(brandKitEditor.fonts),
+          toneRules: splitLines(brandKitEditor.toneRules),
+          maxColorDistance: Number(brandKitEditor.maxColorDistance),
+          maxOffPaletteShare: Number(brandKitEditor.maxOffPalettePercent) / 100,
+        }),
+      });
+      const payload = (await response.json()) as BrandKitsPayload;
+      if (!response.ok || !payload.brandKit) {
+        throw new Error(payload.error ?? "ブランドキットの保存に失敗しました。");
+      }
+      setMessage(`ブランドキット「${payload.brandKit.name}」を保存しました。`);
+      await fetchBrandKits(payload.brandKit.brandKitId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "ブランドキットの保存に失敗しました。");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteBrandKit = async () => {
+    if (!brandKitEditor.brandKitId || !window.confirm(`ブランドキット「${brandKitEditor.name}」を削除しますか？`)) {
+      return;
+    }
+    setLoading(true);
+    setMessage("");
+    setError("");
+
+    try {
+      const response = await fetch(`/api/brand-kits/${encodeURIComponent(brandKitEditor.brandKitId)}`, {
+        method: "DELETE",
+      });
+      const payload = (await response.json()) as BrandKitsPayload;
+      if (!response.ok) {
+        throw new Error(payload.error ?? "ブランドキットの削除に失敗しました。");
+      }
+      setMessage("ブランドキットを削除しました。");
+      await fetchBrandKits();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "ブランドキットの削除に失敗しました。");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const editingTemplateRecord = promptTemplates?.templates.find(
+    (template) => template.templateId === templateEditor.templateId,
+  );
+  const isEditingDefaultTemplate = templateEditor.templateId === promptTemplates?.defaultTemplate.templateId;
+
   return (
     <main className="shell">
       <header className="header">
@@ -132,6 +672,429 @@ export default function SettingsPage() {
         {message ? <p className="ok">{message}</p> : null}
         {error ? <p className="error">{error}</p> : null}
       </section>
+
+      <section className="card" style={{ maxWidth: 720, marginTop: 16 }}>
+        <h2 className="sectionTitle">生成設定</h2>
+        <p className="small">
+          本生成・再生成で同時にGeminiへ送るページ数です。大きくすると速くなりますが、APIの利用上限に達しやすくなります。
+        </p>
+
+        <div className="row">
+          <label className="fieldLabel" htmlFor="concurrency">
+            同時生成数（1-{maxConcurrency}）
+          </label>
+          <input
+            id="concurrency"
+            className="input"
+            type="number"
+            min={1}
+            max={maxConcurrency}
+            value={concurrency}
+            onChange={(event) => setConcurrency(event.target.value)}
+          />
+        </div>
+
+        <div className="buttonRow">
+          <button className="btn btnPrimary" disabled={loading} onClick={handleSaveGenerationSettings}>
+            生成設定を保存
+          </button>
+        </div>
+      </section>
+
+      <section className="card" style={{ maxWidth: 720, marginTop: 16 }}>
+        <h2 className="sectionTitle">既定の画像生成プロバイダー</h2>
+        <p className="small">
+          メイン画面でプロバイダーを選んでいないジョブに使います。「モック（オフライン）」はAPIキーなしで元スライドから決まった画像を返すため、デモや動作確認に使えます。
+        </p>
+        {providerSettings?.envOverride ? (
+          <p className="small">
+            環境変数 IMAGE_PROVIDER={providerSettings.envOverride} が設定されているため、この設定より優先されます。
+          </p>
+        ) : null}
+
+        <div className="row">
+          <label className="fieldLabel" htmlFor="defaultProvider">
+            プロバイダー
+          </label>
+          <select
+            id="defaultProvider"
+            className="input"
+            value={defaultProvider}
+            onChange={(event) => setDefaultProvider(event.target.value)}
+          >
+            {(providerSettings?.providers ?? []).map((provider) => (
+              <option key={provider.id} value={provider.id}>
+                {provider.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="buttonRow">
+          <button className="btn btnPrimary" disabled={loading || !defaultProvider} onClick={handleSaveDefaultProvider}>
+            既定のプロバイダーを保存
+          </button>
+        </div>
+      </section>
+
+      <section className="card" style={{ maxWidth: 720, marginTop: 16 }}>
+        <h2 className="sectionTitle">プロンプトテンプレート</h2>
+        <p className="small">
+          生成・再生成でページごとに送る指示文のひな形です。保存するたびに新しい版として残り、生成履歴には使ったテンプレートと版が記録されます。組み込みの標準テンプレートは編集できないため、書き換えたいときは新しいテンプレートとして保存してください。
+        </p>
+
+        <div className="row">
+          <label className="fieldLabel" htmlFor="promptTemplate">
+            テンプレート
+          </label>
+          <select
+            id="promptTemplate"
+            className="input"
+            value={templateEditor.templateId}
+            onChange={(event) => handleSelectPromptTemplate(event.target.value)}
+            disabled={loading || !promptTemplates}
+          >
+            {promptTemplates
+              ? [
+                  { templateId: promptTemplates.defaultTemplate.templateId, label: promptTemplates.defaultTemplate.name },
+                  ...promptTemplates.templates.map((template) => ({
+                    templateId: template.templateId,
+                    label: `${template.name}（v${latestTemplateVersion(template)}）`,
+                  })),
+                ].map((option) => (
+                  <option key={option.templateId} value={option.templateId}>
+                    {option.label}
+                    {option.templateId === promptTemplates.activeTemplateId ? " - 使用中" : ""}
+                  </option>
+                ))
+              : null}
+          </select>
+        </div>
+
+        {editingTemplateRecord ? (
+          <div className="row">
+            <label className="fieldLabel" htmlFor="promptTemplateVersion">
+              版（古い版を開いて保存すると、その内容で新しい版になります）
+            </label>
+            <select
+              id="promptTemplateVersion"
+              className="input"
+              value={templateEditor.version}
+              onChange={(event) => handleSelectPromptTemplate(templateEditor.templateId, Number(event.target.value))}
+              disabled={loading}
+            >
+              {[...editingTemplateRecord.versions].reverse().map((row) => (
+                <option key={row.version} value={row.version}>
+                  v{row.version}（{new Date(row.createdAt).toLocaleString("ja-JP")}）{row.note ? ` ${row.note}` : ""}
+                </option>
+              ))}
+            </select>
+          </div>
+        ) : null}
+
+        <div className="row">
+          <label className="fieldLabel" htmlFor="promptTemplateName">
+            名前
+          </label>
+          <input
+            id="promptTemplateName"
+            className="input"
+            value={templateEditor.name}
+            onChange={(event) => setTemplateEditor((prev) => ({ ...prev, name: event.target.value }))}
+            placeholder={isEditingDefaultTemplate ? "新しいテンプレートの名前" : ""}
+          />
+        </div>
+
+        <div className="row">
+          <label className="fieldLabel" htmlFor="promptTemplateBody">
+            本文
+          </label>
+          <textarea
+            id="promptTemplateBody"
+            className="textarea"
+            rows={18}
+            value={templateEditor.body}
+            onChange={(event) => setTemplateEditor((prev) => ({ ...prev, body: event.target.value }))}
+          />
+        </div>
+
+        <div className="row">
+          <label className="fieldLabel" htmlFor="promptTemplateNote">
+            版のメモ（任意）
+          </label>
+          <input
+            id="promptTemplateNote"
+            className="input"
+            value={templateNote}
+            onChange={(event) => setTemplateNote(event.target.value)}
+            placeholder="例: ノートの扱いを厳しくした"
+          />
+        </div>
+
+        <p className="small">
+          使えるプレースホルダー:{" "}
+          {(promptTemplates?.placeholders ?? []).map((placeholder) => (
+            <span key={placeholder.name}>
+              <code>{`{{${placeholder.name}}}`}</code> {placeholder.description}　
+            </span>
+          ))}
+        </p>
+        <p className="small">
+          <code>{"{{#名前}}"}</code>〜<code>{"{{/名前}}"}</code> で囲んだ部分は、その値が空（ロゴ枚数は0）のとき出力しません。
+        </p>
+
+        <div className="buttonRow">
+          <button
+            className="btn btnPrimary"
+            disabled={loading || !templateEditor.templateId || isEditingDefaultTemplate || !templateEditor.body.trim()}
+            onClick={handleSavePromptTemplateVersion}
+          >
+            新しい版として保存
+          </button>
+          <button className="btn" disabled={loading || !templateEditor.body.trim()} onClick={handleCreatePromptTemplate}>
+            新しいテンプレートとして保存
+          </button>
+          <button
+            className="btn"
+            disabled={loading || !templateEditor.templateId || templateEditor.templateId === promptTemplates?.activeTemplateId}
+            onClick={handleActivatePromptTemplate}
+          >
+            このテンプレートを使用する
+          </button>
+        </div>
+      </section>
+
+      <section className="card" style={{ maxWidth: 720, marginTop: 16 }}>
+        <h2 className="sectionTitle">ブランドキット</h2>
+        <p className="small">
+          ブランドカラー・フォント・トーンの規定です。ジョブでキットを選ぶと、指示文に規定が加わり、生成した各ページの主要色がブランドカラーから外れていないかを確認します。白・黒・グレーはブランド外の色に数えません。
+        </p>
+
+        <div className="row">
+          <label className="fieldLabel" htmlFor="brandKitSelect">
+            キット
+          </label>
+          <select
+            id="brandKitSelect"
+            className="input"
+            value={brandKitEditor.brandKitId}
+            onChange={(event) =>
+              setBrandKitEditor(toBrandKitEditor(brandKits.find((kit) => kit.brandKitId === event.target.value)))
+            }
+            disabled={loading}
+          >
+            <option value="">新しいキット</option>
+            {brandKits.map((kit) => (
+              <option key={kit.brandKitId} value={kit.brandKitId}>
+                {kit.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="row">
+          <label className="fieldLabel" htmlFor="brandKitName">
+            名前
+          </label>
+          <input
+            id="brandKitName"
+            className="input"
+            value={brandKitEditor.name}
+            onChange={(event) => setBrandKitEditor((prev) => ({ ...prev, name: event.target.value }))}
+            placeholder="例: コーポレート標準"
+          />
+        </div>
+
+        <div className="row">
+          <label className="fieldLabel" htmlFor="brandKitColors">
+            ブランドカラー（1行に「#RRGGBB 名前」）
+          </label>
+          <textarea
+            id="brandKitColors"
+            className="textarea"
+            rows={4}
+            value={brandKitEditor.colors}
+            onChange={(event) => setBrandKitEditor((prev) => ({ ...prev, colors: event.target.value }))}
+            placeholder={"#0B5FFF メイン\n#00C2A8 アクセント"}
+          />
+        </div>
+
+        <div className="row">
+          <label className="fieldLabel" htmlFor="brandKitFonts">
+            フォント（1行に1つ）
+          </label>
+          <textarea
+            id="brandKitFonts"
+            className="textarea"
+            rows={2}
+            value={brandKitEditor.fonts}
+            onChange={(event) => setBrandKitEditor((prev) => ({ ...prev, fonts: event.target.value }))}
+            placeholder="例: Noto Sans JP"
+          />
+        </div>
+
+        <div className="row">
+          <label className="fieldLabel" htmlFor="brandKitToneRules">
+            トーンの規定（1行に1つ）
+          </label>
+          <textarea
+            id="brandKitToneRules"
+            className="textarea"
+            rows={3}
+            value={brandKitEditor.toneRules}
+            onChange={(event) => setBrandKitEditor((prev) => ({ ...prev, toneRules: event.target.value }))}
+            placeholder="例: 余白を広く取り、装飾は控えめにする"
+          />
+        </div>
+
+        <div className="row">
+          <label className="fieldLabel" htmlFor="brandKitDistance">
+            ブランドカラーとみなす色差（ΔE）
+          </label>
+          <input
+            id="brandKitDistance"
+            className="input"
+            type="number"
+            min={1}
+            max={100}
+            value={brandKitEditor.maxColorDistance}
+            onChange={(event) => setBrandKitEditor((prev) => ({ ...prev, maxColorDistance: event.target.value }))}
+          />
+        </div>
+
+        <div className="row">
+          <label className="fieldLabel" htmlFor="brandKitOffPalette">
+            ブランド外の色が何%を超えたら要確認にするか
+          </label>
+          <input
+            id="brandKitOffPalette"
+            className="input"
+            type="number"
+            min={0}
+            max={100}
+            value={brandKitEditor.maxOffPalettePercent}
+            onChange={(event) => setBrandKitEditor((prev) => ({ ...prev, maxOffPalettePercent: event.target.value }))}
+          />
+        </div>
+
+        <div className="buttonRow">
+          <button
+            className="btn btnPrimary"
+            disabled={loading || !brandKitEditor.name.trim() || !brandKitEditor.colors.trim()}
+            onClick={handleSaveBrandKit}
+          >
+            ブランドキットを保存
+          </button>
+          <button className="btn" disabled={loading || !brandKitEditor.brandKitId} onClick={handleDeleteBrandKit}>
+            削除
+          </button>
+        </div>
+      </section>
+
+      <section className="card" style={{ maxWidth: 720, marginTop: 16 }}>
+        <h2 className="sectionTitle">単価表（推定コスト用）</h2>
+        <p className="small">
+          メイン画面の利用量パネルに表示する推定コストの計算に使います（USD / 100万トークン、画像出力は出力トークンとして計算）。
+        </p>
+
+        {priceRows.map((row) => (
+          <div className="row" key={row.model}>
+            <label className="fieldLabel">{row.model}</label>
+            <div className="buttonRow">
+              <input
+                className="input"
+                type="number"
+                min={0}
+                step="0.01"
+                value={row.input}
+                onChange={(event) => updatePriceRow(row.model, { input: event.target.value })}
+                aria-label={`${row.model} 入力単価`}
+              />
+              <input
+                className="input"
+                type="number"
+                min={0}
+                step="0.01"
+                value={row.output}
+                onChange={(event) => updatePriceRow(row.model, { output: event.target.value })}
+                aria-label={`${row.model} 出力単価`}
+              />
+            </div>
+            <p className="small">左: 入力 / 右: 出力</p>
+          </div>
+        ))}
+
+        <div className="buttonRow">
+          <button className="btn btnPrimary" disabled={loading || priceRows.length === 0} onClick={handleSavePricing}>
+            単価表を保存
+          </button>
+        </div>
+      </section>
+
+      <section className="card" style={{ maxWidth: 720, marginTop: 16 }}>
+        <h2 className="sectionTitle">レート制限（毎分リクエスト数）</h2>
+        <p className="small">
+          デザイン確認・生成・再生成をまとめて、モデルごとに1分あたりの API 呼び出し数を抑えます。上限を超えた呼び出しは失敗せず、順番が来るまで待ちます。
+        </p>
+
+        {Object.entries(rateLimitInputs).map(([model, rpm]) => (
+          <div className="row" key={model}>
+            <label className="fieldLabel" htmlFor={`rpm-${model}`}>
+              {model}
+            </label>
+            <input
+              id={`rpm-${model}`}
+              className="input"
+              type="number"
+              min={1}
+              step={1}
+              value={rpm}
+              onChange={(event) => setRateLimitInputs((prev) => ({ ...prev, [model]: event.target.value }))}
+            />
+          </div>
+        ))}
+
+        <div className="buttonRow">
+          <button
+            className="btn btnPrimary"
+            disabled={loading || Object.keys(rateLimitInputs).length === 0}
+            onClick={handleSaveRateLimits}
+          >
+            レート制限を保存
+          </button>
+        </div>
+      </section>
+
+      <section className="card" style={{ maxWidth: 720, marginTop: 16 }}>
+        <h2 className="sectionTitle">利用上限</h2>
+        <p className="small">
+          推定コストがいずれかの上限に達すると、以降のページはAPIを呼ばずにエラーとして記録されます。空欄は上限なしです。
+        </p>
+
+        {SPENDING_LIMIT_FIELDS.map((field) => (
+          <div className="row" key={field.key}>
+            <label className="fieldLabel" htmlFor={field.key}>
+              {field.label}
+            </label>
+            <input
+              id={field.key}
+              className="input"
+              type="number"
+              min={0}
+              step="0.01"
+              value={limitInputs[field.key]}
+              onChange={(event) => setLimitInputs((prev) => ({ ...prev, [field.key]: event.target.value }))}
+              placeholder="上限なし"
+            />
+          </div>
+        ))}
+
+        <div className="buttonRow">
+          <button className="btn btnPrimary" disabled={loading} onClick={handleSaveSpendingLimits}>
+            利用上限を保存
+          </button>
+        </div>
+      </section>
     </main>
   );
 }
@@ -0,0 +1,10 @@
+/**
+ * サーバー起動時の処理。前回のプロセスで未完了のまま残った生成タスク（バッチの完了確認を含む）を再開する。
+ */
+export async function register(): Promise<void> {
+  if (process.env.NEXT_RUNTIME !== "nodejs") {
+    return;
+  }
+  const { resumeGenerationQueue } = await import("@/lib/generation-queue");
+  resumeGenerationQueue();
+}
@@ -0,0 +1,84 @@
+import type { JobRecord } from "@/lib/types";
+
+// Gemini の imageConfig.aspectRatio が受け付ける比率。
+export const SUPPORTED_ASPECT_RATIOS = [
+  "1:1",
+  "2:3",
+  "3:2",
+  "3:4",
+  "4:3",
+  "4:5",
+  "5:4",
+  "9:16",
+  "16:9",
+  "21:9",
+] as const;
+
+export const DEFAULT_ASPECT_RATIO = "16:9";
+
+const EMU_PER_POINT = 12700;
+const EMU_PER_INCH = 914400;
+// スライドサイズが取れない旧ジョブ用の既定値（PowerPoint のワイド画面 13.333 x 7.5 インチ）。
+const DEFAULT_SLIDE_WIDTH_EMU = 12192000;
+const DEFAULT_SLIDE_HEIGHT_EMU = 6858000;
+
+function ratioValue(aspectRatio: string): number {
+  const [width, height] = aspectRatio.split(":").map(Number);
+  return width > 0 && height > 0 ? width / height : 16 / 9;
+}
+
+/**
+ * スライドの幅・高さ（単位不問）に最も近い対応比率を返す。比率の差は対数で比較する。
+ */
+export function nearestAspectRatio(width: number, height: number): string {
+  if (!(width > 0) || !(height > 0)) {
+    return DEFAULT_ASPECT_RATIO;
+  }
+
+  const target = Math.log(width / height);
+  let best: string = DEFAULT_ASPECT_RATIO;
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (const candidate of SUPPORTED_ASPECT_RATIOS) {
+    const distance = Math.abs(Math.log(ratioValue(candidate)) - target);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+export function describeAspectRatio(aspectRatio: string): string {
+  const value = ratioValue(aspectRatio);
+  if (value > 1) {
+    return `横長${aspectRatio}`;
+  }
+  if (value < 1) {
+    return `縦長${aspectRatio}`;
+  }
+  return `正方形${aspectRatio}`;
+}
+
+export function resolveJobAspectRatio(job: Pick<JobRecord, "aspectRatio">): string {
+  return job.aspectRatio ?? DEFAULT_ASPECT_RATIO;
+}
+
+/**
+ * 書き出し用のページサイズ。元資料のスライドサイズ（EMU）をそのまま使う。
+ */
+export function resolveJobPageSize(job: Pick<JobRecord, "slideWidthEmu" | "slideHeightEmu">): {
+  widthPt: number;
+  heightPt: number;
+  widthIn: number;
+  heightIn: number;
+} {
+  const hasSize = (job.slideWidthEmu ?? 0) > 0 && (job.slideHeightEmu ?? 0) > 0;
+  const widthEmu = hasSize ? job.slideWidthEmu! : DEFAULT_SLIDE_WIDTH_EMU;
+  const heightEmu = hasSize ? job.slideHeightEmu! : DEFAULT_SLIDE_HEIGHT_EMU;
+  return {
+    widthPt: widthEmu / EMU_PER_POINT,
+    heightPt: heightEmu / EMU_PER_POINT,
+    widthIn: widthEmu / EMU_PER_INCH,
+    heightIn: heightEmu / EMU_PER_INCH,
+  };
+}
@@ -0,0 +1,141 @@
+import sharp from "sharp";
+import type { BrandColorCheck, BrandDominantColor, BrandKit } from "@/lib/types";
+
+type Lab = { l: number; a: number; b: number };
+
+type ColorCluster = {
+  r: number;
+  g: number;
+  b: number;
+  count: number;
+};
+
+// 主要色の抽出は縮小画像で行う（スライド1枚の配色傾向を見るには十分で、4K 画像でも軽い）。
+const SAMPLE_EDGE_PX = 96;
+// 近い色のバケットを1色にまとめるときの色差。
+const CLUSTER_MERGE_DISTANCE = 12;
+// 画像に占める割合がこれ未満の色は主要色として扱わない（アンチエイリアスや細部の色を除く）。
+const MIN_DOMINANT_SHARE = 0.03;
+const MAX_DOMINANT_COLORS = 8;
+// a*b* 平面の彩度がこれ未満なら無彩色（白・黒・グレー）とみなし、ブランド外の色に数えない。
+const NEUTRAL_CHROMA = 10;
+
+function srgbToLinear(value: number): number {
+  const c = value / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+function rgbToLab(r: number, g: number, b: number): Lab {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+  // D65 白色点で正規化した XYZ。
+  const x = (0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047;
+  const y = 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+  const z = (0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+function deltaE(left: Lab, right: Lab): number {
+  return Math.hypot(left.l - right.l, left.a - right.a, left.b - right.b);
+}
+
+function hexToLab(hex: string): Lab {
+  const value = parseInt(hex.slice(1), 16);
+  return rgbToLab((value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff);
+}
+
+function toHex(r: number, g: number, b: number): string {
+  return `#${[r, g, b].map((value) => Math.round(value).toString(16).padStart(2, "0")).join("").toUpperCase()}`;
+}
+
+/**
+ * 縮小画像の画素を RGB 各4bitのバケットに数え、多い順に近い色同士をまとめて主要色にする。
+ */
+async function extractDominantColors(imageBytes: Buffer): Promise<{ hex: string; lab: Lab; share: number }[]> {
+  const { data, info } = await sharp(imageBytes)
+    .resize(SAMPLE_EDGE_PX, SAMPLE_EDGE_PX, { fit: "inside" })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const buckets = new Map<number, ColorCluster>();
+  for (let p = 0; p < data.length; p += info.channels) {
+    const key = ((data[p] >> 4) << 8) | ((data[p + 1] >> 4) << 4) | (data[p + 2] >> 4);
+    const bucket = buckets.get(key) ?? { r: 0, g: 0, b: 0, count: 0 };
+    bucket.r += data[p];
+    bucket.g += data[p + 1];
+    bucket.b += data[p + 2];
+    bucket.count += 1;
+    buckets.set(key, bucket);
+  }
+
+  const totalPixels = info.width * info.height;
+  const clusters: Array<{ sum: ColorCluster; lab: Lab }> = [];
+  const sorted = Array.from(buckets.values()).sort((a, b) => b.count - a.count);
+  for (const bucket of sorted) {
+    const lab = rgbToLab(bucket.r / bucket.count, bucket.g / bucket.count, bucket.b / bucket.count);
+    const cluster = clusters.find((row) => deltaE(row.lab, lab) < CLUSTER_MERGE_DISTANCE);
+    if (cluster) {
+      cluster.sum.r += bucket.r;
+      cluster.sum.g += bucket.g;
+      cluster.sum.b += bucket.b;
+      cluster.sum.count += bucket.count;
+    } else {
+      clusters.push({ sum: { ...bucket }, lab });
+    }
+  }
+
+  return clusters
+    .map(({ sum }) => {
+      const r = sum.r / sum.count;
+      const g = sum.g / sum.count;
+      const b = sum.b / sum.count;
+      return { hex: toHex(r, g, b), lab: rgbToLab(r, g, b), share: sum.count / totalPixels };
+    })
+    .filter((color) => color.share >= MIN_DOMINANT_SHARE)
+    .sort((a, b) => b.share - a.share)
+    .slice(0, MAX_DOMINANT_COLORS);
+}
+
+/**
+ * 生成画像の主要色をブランドカラーと比べ、ブランド外の有彩色が占める割合が上限を超えるページを要確認にする。
+ */
+export async function checkBrandPalette(imageBytes: Buffer, kit: BrandKit): Promise<BrandColorCheck> {
+  const brandColors = kit.colors.map((color) => ({ hex: color.hex, lab: hexToLab(color.hex) }));
+  const dominantColors: BrandDominantColor[] = (await extractDominantColors(imageBytes)).map((color) => {
+    const neutral = Math.hypot(color.lab.a, color.lab.b) < NEUTRAL_CHROMA;
+    const nearest = brandColors.reduce<{ hex: string; distance: number } | null>((best, brand) => {
+      const distance = deltaE(color.lab, brand.lab);
+      return !best || distance < best.distance ? { hex: brand.hex, distance } : best;
+    }, null);
+    return {
+      hex: color.hex,
+      share: color.share,
+      neutral,
+      nearestBrandHex: nearest?.hex ?? null,
+      distance: nearest ? Math.round(nearest.distance * 10) / 10 : null,
+      offPalette: !neutral && (!nearest || nearest.distance > kit.maxColorDistance),
+    };
+  });
+
+  const offPalette = dominantColors.filter((color) => color.offPalette);
+  const offPaletteShare = offPalette.reduce((sum, color) => sum + color.share, 0);
+  const flagged = offPaletteShare > kit.maxOffPaletteShare;
+  const percent = Math.round(offPaletteShare * 100);
+  return {
+    brandKitId: kit.brandKitId,
+    dominantColors,
+    offPaletteShare,
+    flagged,
+    message: flagged
+      ? `ブランドカラーから外れた色が画像の約${percent}%を占めています（${offPalette.map((color) => color.hex).join("、")}）。`
+      : offPalette.length > 0
+        ? `ブランドカラー外の色は約${percent}%で、許容範囲内です。`
+        : "主要な色はブランドカラーと無彩色の範囲内です。",
+  };
+}
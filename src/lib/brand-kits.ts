@@ -0,0 +1,152 @@
+import fs from "node:fs";
+import path from "node:path";
+import { BRAND_KITS_DIR, writeJsonAtomic } from "@/lib/paths";
+import type { BrandColor, BrandKit, JobRecord } from "@/lib/types";
+
+export const DEFAULT_MAX_COLOR_DISTANCE = 25;
+export const DEFAULT_MAX_OFF_PALETTE_SHARE = 0.2;
+
+const HEX_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * "#abc" / "AABBCC" などを "#AABBCC" にそろえる。形式が不正なら null。
+ */
+export function normalizeHexColor(value: string): string | null {
+  const match = HEX_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const digits = match[1].length === 3 ? [...match[1]].map((char) => char + char).join("") : match[1];
+  return `#${digits.toUpperCase()}`;
+}
+
+function getBrandKitJsonPath(brandKitId: string): string {
+  return path.join(BRAND_KITS_DIR, `${path.basename(brandKitId)}.json`);
+}
+
+function createBrandKitId(): string {
+  return `brand_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function readBrandKit(brandKitId: string): BrandKit | null {
+  const jsonPath = getBrandKitJsonPath(brandKitId);
+  if (!fs.existsSync(jsonPath)) {
+    return null;
+  }
+  const kit = JSON.parse(fs.readFileSync(jsonPath, "utf8")) as BrandKit;
+  return {
+    ...kit,
+    colors: Array.isArray(kit.colors) ? kit.colors : [],
+    fonts: Array.isArray(kit.fonts) ? kit.fonts : [],
+    toneRules: Array.isArray(kit.toneRules) ? kit.toneRules : [],
+    maxColorDistance: kit.maxColorDistance ?? DEFAULT_MAX_COLOR_DISTANCE,
+    maxOffPaletteShare: kit.maxOffPaletteShare ?? DEFAULT_MAX_OFF_PALETTE_SHARE,
+  };
+}
+
+export function hasBrandKit(brandKitId: string): boolean {
+  return readBrandKit(brandKitId) !== null;
+}
+
+export function loadBrandKit(brandKitId: string): BrandKit {
+  const kit = readBrandKit(brandKitId);
+  if (!kit) {
+    throw new Error("ブランドキットが見つかりません。");
+  }
+  return kit;
+}
+
+/**
+ * ジョブに設定されたブランドキット。未設定か、キットが削除されていれば null。
+ */
+export function loadJobBrandKit(job: Pick<JobRecord, "jobId" | "brandKitId">): BrandKit | null {
+  if (!job.brandKitId) {
+    return null;
+  }
+  const kit = readBrandKit(job.brandKitId);
+  if (!kit) {
+    console.warn(`[brand-kits] job=${job.jobId} brand kit ${job.brandKitId} not found; generating without it`);
+  }
+  return kit;
+}
+
+export function listBrandKits(): BrandKit[] {
+  if (!fs.existsSync(BRAND_KITS_DIR)) {
+    return [];
+  }
+  return fs
+    .readdirSync(BRAND_KITS_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .flatMap((file) => {
+      const kit = readBrandKit(path.basename(file, ".json"));
+      return kit ? [kit] : [];
+    })
+    .sort((a, b) => a.name.localeCompare(b.name, "ja"));
+}
+
+/**
+ * brandKitId があれば上書き、なければ新しく作る。色は #RRGGBB にそろえ、重複を除く。
+ */
+export function saveBrandKit(params: {
+  brandKitId?: string;
+  name: string;
+  colors: BrandColor[];
+  fonts: string[];
+  toneRules: string[];
+  maxColorDistance?: number;
+  maxOffPaletteShare?: number;
+}): BrandKit {
+  const colors = new Map<string, BrandColor>();
+  for (const color of params.colors) {
+    const hex = normalizeHexColor(color.hex);
+    if (!hex) {
+      throw new Error(`色コード「${color.hex}」の形式が正しくありません。（例: #0B5FFF）`);
+    }
+    if (!colors.has(hex)) {
+      colors.set(hex, { hex, name: color.name?.trim() || undefined });
+    }
+  }
+  if (colors.size === 0) {
+    throw new Error("ブランドカラーを1色以上指定してください。");
+  }
+
+  const existing = params.brandKitId ? loadBrandKit(params.brandKitId) : null;
+  const now = new Date().toISOString();
+  const kit: BrandKit = {
+    brandKitId: existing?.brandKitId ?? createBrandKitId(),
+    name: params.name.trim(),
+    colors: Array.from(colors.values()),
+    fonts: params.fonts.map((font) => font.trim()).filter(Boolean),
+    toneRules: params.toneRules.map((rule) => rule.trim()).filter(Boolean),
+    maxColorDistance: params.maxColorDistance ?? existing?.maxColorDistance ?? DEFAULT_MAX_COLOR_DISTANCE,
+    maxOffPaletteShare: params.maxOffPaletteShare ?? existing?.maxOffPaletteShare ?? DEFAULT_MAX_OFF_PALETTE_SHARE,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  writeJsonAtomic(getBrandKitJsonPath(kit.brandKitId), kit);
+  return kit;
+}
+
+export function deleteBrandKit(brandKitId: string): void {
+  loadBrandKit(brandKitId);
+  fs.rmSync(getBrandKitJsonPath(brandKitId), { force: true });
+}
+
+/**
+ * プロンプトに差し込むブランド規定。キットがなければ空文字（テンプレートの {{#brandConstraints}} ごと省かれる）。
+ */
+export function describeBrandConstraints(kit: BrandKit | null): string {
+  if (!kit) {
+    return "";
+  }
+  const colors = kit.colors.map((color) => (color.name ? `${color.hex}（${color.name}）` : color.hex));
+  return [
+    `- 色はブランドカラーだけを使う（白・黒・グレーの無彩色は可）: ${colors.join("、")}`,
+    kit.fonts.length > 0
+      ? `- 文字は次のフォント（またはその字形に近い書体）で描く: ${kit.fonts.join("、")}`
+      : "",
+    ...kit.toneRules.map((rule) => `- トーン: ${rule}`),
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
@@ -0,0 +1,201 @@
+import { extractGeminiImage, GeminiRequestError } from "@/lib/gemini";
+import type { GeminiResponseShape } from "@/lib/gemini";
+import type { ImageGenerationOutput } from "@/lib/image-provider";
+import type { GenerationBatchState } from "@/lib/types";
+
+const API_BASE = "https://generativelanguage.googleapis.com";
+
+const BATCH_STATES: Record<string, GenerationBatchState> = {
+  BATCH_STATE_PENDING: "pending",
+  BATCH_STATE_RUNNING: "running",
+  BATCH_STATE_SUCCEEDED: "succeeded",
+  BATCH_STATE_FAILED: "failed",
+  BATCH_STATE_CANCELLED: "cancelled",
+  BATCH_STATE_EXPIRED: "expired",
+};
+
+export const FINISHED_BATCH_STATES = new Set<GenerationBatchState>(["succeeded", "failed", "cancelled", "expired"]);
+
+type BatchOperationShape = {
+  name?: string;
+  done?: boolean;
+  error?: { message?: string };
+  metadata?: {
+    state?: string;
+    output?: { responsesFile?: string };
+  };
+  response?: {
+    responsesFile?: string;
+  };
+};
+
+type BatchResponseLine = {
+  key?: string;
+  response?: GeminiResponseShape;
+  error?: { message?: string; code?: number };
+};
+
+export type GeminiBatchRequest = {
+  key: string;
+  payload: Record<string, unknown>;
+};
+
+export type GeminiBatchStatus = {
+  state: GenerationBatchState;
+  responsesFile?: string;
+  error?: string;
+};
+
+export type GeminiBatchItemResult =
+  | { ok: true; output: Omit<ImageGenerationOutput, "attempts"> }
+  | { ok: false; error: GeminiRequestError };
+
+async function readJsonResponse<T>(response: Response, fallbackMessage: string): Promise<T> {
+  const json = (await response.json().catch(() => ({}))) as T & { error?: { message?: string } };
+  if (!response.ok) {
+    throw new Error(json.error?.message ?? `${fallbackMessage}（HTTP ${response.status}）`);
+  }
+  return json;
+}
+
+/**
+ * リクエストを JSONL にまとめて File API へアップロードする（インライン指定は 20MB 上限のため使わない）。
+ */
+async function uploadBatchInput(params: {
+  apiKey: string;
+  displayName: string;
+  requests: GeminiBatchRequest[];
+}): Promise<string> {
+  const { apiKey, displayName, requests } = params;
+  const body = Buffer.from(
+    requests.map((request) => JSON.stringify({ key: request.key, request: request.payload })).join("\n"),
+    "utf8",
+  );
+
+  const start = await fetch(`${API_BASE}/upload/v1beta/files?key=${apiKey}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Goog-Upload-Protocol": "resumable",
+      "X-Goog-Upload-Command": "start",
+      "X-Goog-Upload-Header-Content-Length": String(body.length),
+      "X-Goog-Upload-Header-Content-Type": "application/jsonl",
+    },
+    body: JSON.stringify({ file: { display_name: displayName } }),
+  });
+  const uploadUrl = start.headers.get("x-goog-upload-url");
+  if (!start.ok || !uploadUrl) {
+    throw new Error(`バッチ入力ファイルのアップロードを開始できませんでした。（HTTP ${start.status}）`);
+  }
+
+  const uploaded = await fetch(uploadUrl, {
+    method: "POST",
+    headers: {
+      "Content-Length": String(body.length),
+      "X-Goog-Upload-Offset": "0",
+      "X-Goog-Upload-Command": "upload, finalize",
+    },
+    body,
+  });
+  const json = await readJsonResponse<{ file?: { name?: string } }>(
+    uploaded,
+    "バッチ入力ファイルのアップロードに失敗しました。",
+  );
+  if (!json.file?.name) {
+    throw new Error("バッチ入力ファイルの名前を取得できませんでした。");
+  }
+  return json.file.name;
+}
+
+/**
+ * Gemini Batch API にジョブを投入し、バッチ名（batches/...）を返す。
+ */
+export async function submitGeminiBatch(params: {
+  apiKey: string;
+  model: string;
+  displayName: string;
+  requests: GeminiBatchRequest[];
+}): Promise<string> {
+  const { apiKey, model, displayName, requests } = params;
+  const fileName = await uploadBatchInput({ apiKey, displayName, requests });
+
+  const response = await fetch(`${API_BASE}/v1beta/models/${model}:batchGenerateContent?key=${apiKey}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      batch: {
+        display_name: displayName,
+        input_config: { file_name: fileName },
+      },
+    }),
+  });
+  const json = await readJsonResponse<BatchOperationShape>(response, "バッチの投入に失敗しました。");
+  if (!json.name) {
+    throw new Error("バッチIDを取得できませんでした。");
+  }
+  return json.name;
+}
+
+export async function getGeminiBatchStatus(params: { apiKey: string; batchName: string }): Promise<GeminiBatchStatus> {
+  const { apiKey, batchName } = params;
+  const response = await fetch(`${API_BASE}/v1beta/${batchName}?key=${apiKey}`);
+  const json = await readJsonResponse<BatchOperationShape>(response, "バッチの状態を取得できませんでした。");
+  return {
+    state: BATCH_STATES[json.metadata?.state ?? ""] ?? "pending",
+    responsesFile: json.response?.responsesFile ?? json.metadata?.output?.responsesFile,
+    error: json.error?.message,
+  };
+}
+
+export async function cancelGeminiBatch(params: { apiKey: string; batchName: string }): Promise<void> {
+  const { apiKey, batchName } = params;
+  const response = await fetch(`${API_BASE}/v1beta/${batchName}:cancel?key=${apiKey}`, { method: "POST" });
+  await readJsonResponse(response, "バッチの中止に失敗しました。");
+}
+
+/**
+ * 結果ファイル（JSONL）を取得し、投入時の key ごとに画像または失敗理由へ変換する。
+ */
+export async function downloadGeminiBatchResults(params: {
+  apiKey: string;
+  responsesFile: string;
+}): Promise<Map<string, GeminiBatchItemResult>> {
+  const { apiKey, responsesFile } = params;
+  const response = await fetch(`${API_BASE}/download/v1beta/${responsesFile}:download?alt=media&key=${apiKey}`);
+  if (!response.ok) {
+    throw new Error(`バッチ結果の取得に失敗しました。（HTTP ${response.status}）`);
+  }
+
+  const results = new Map<string, GeminiBatchItemResult>();
+  const lines = (await response.text()).split("\n").filter((line) => line.trim());
+  for (const line of lines) {
+    let row: BatchResponseLine;
+    try {
+      row = JSON.parse(line) as BatchResponseLine;
+    } catch {
+      continue;
+    }
+    if (!row.key) {
+      continue;
+    }
+    if (row.error || !row.response) {
+      results.set(row.key, {
+        ok: false,
+        error: new GeminiRequestError(row.error?.message ?? "バッチ結果に応答が含まれていません。", {
+          retryable: false,
+          status: row.error?.code,
+        }),
+      });
+      continue;
+    }
+    try {
+      results.set(row.key, { ok: true, output: extractGeminiImage(row.response) });
+    } catch (error) {
+      if (!(error instanceof GeminiRequestError)) {
+        throw error;
+      }
+      results.set(row.key, { ok: false, error });
+    }
+  }
+  return results;
+}
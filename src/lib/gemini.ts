@@ -1,13 +1,81 @@
 ﻿import fs from "node:fs";
 import path from "node:path";
+import { computeCacheKey, readCachedImage, writeCachedImage } from "@/lib/generation-cache";
+import { ImageProviderError } from "@/lib/image-provider";
+import { acquireRateLimit } from "@/lib/rate-limiter";
+import { getRateLimitForModel } from "@/lib/settings";
+import type {
+  ImageEditConversation,
+  ImageGenerationAttempt,
+  ImageGenerationOutput,
+  ImageGenerationUsage,
+  ImageProvider,
+} from "@/lib/image-provider";
+import type { GenerationFeedback, ImageSize } from "@/lib/types";
 
-type GeminiGenerationResult = {
-  responseJson: unknown;
-  imageBytes: Buffer;
-  mimeType: string;
-  textParts: string[];
+export const GEMINI_DEFAULT_IMAGE_MODEL = "gemini-3-pro-image-preview";
+export const GEMINI_IMAGE_MODELS = [GEMINI_DEFAULT_IMAGE_MODEL, "gemini-2.5-flash-image"];
+// imageSize 指定に対応しているモデル（Flash は 1K 固定で、指定するとエラーになる）。
+const IMAGE_SIZE_MODELS = new Set([GEMINI_DEFAULT_IMAGE_MODEL]);
+const GEMINI_MODEL_IMAGE_SIZES: Record<string, ImageSize[]> = Object.fromEntries(
+  GEMINI_IMAGE_MODELS.map((model) => [model, IMAGE_SIZE_MODELS.has(model) ? ["1K", "2K", "4K"] : ["1K"]]),
+);
+
+export type GeminiResponseShape = {
+  error?: { message?: string; status?: string };
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+    totalTokenCount?: number;
+  };
+  promptFeedback?: { blockReason?: string; safetyRatings?: GeminiSafetyRating[] };
+  candidates?: Array<{
+    finishReason?: string;
+    safetyRatings?: GeminiSafetyRating[];
+    content?: { parts?: Array<Record<string, unknown>> };
+  }>;
 };
 
+type GeminiSafetyRating = {
+  category?: string;
+  probability?: string;
+  blocked?: boolean;
+};
+
+/**
+ * Gemini 呼び出しの失敗。retryable が true のもの（429 / 5xx / 通信断 / 画像なし応答）は再試行対象。
+ */
+export class GeminiRequestError extends ImageProviderError {
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options: { retryable: boolean; status?: number; retryAfterMs?: number },
+  ) {
+    super(message);
+    this.name = "GeminiRequestError";
+    this.retryable = options.retryable;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 30000;
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+const BLOCKED_FINISH_REASONS = new Set([
+  "SAFETY",
+  "IMAGE_SAFETY",
+  "PROHIBITED_CONTENT",
+  "BLOCKLIST",
+  "SPII",
+  "RECITATION",
+]);
+
 function detectExt(mimeType: string): string {
   if (mimeType.includes("png")) {
     return "png";
@@ -37,36 +105,123 @@ export function imageExtensionFromMime(mimeType: string): string {
   return detectExt(mimeType);
 }
 
-export async function generateImageWithGemini(params: {
-  apiKey: string;
-  model: string;
-  prompt: string;
-  inputImagePath: string;
-  logoImagePaths?: string[];
-  referenceImagePaths?: string[];
-  aspectRatio?: string;
-  imageSize?: "1K" | "2K" | "4K";
-}): Promise<GeminiGenerationResult> {
-  const {
-    apiKey,
-    model,
-    prompt,
-    inputImagePath,
-    logoImagePaths = [],
-    referenceImagePaths = [],
-    aspectRatio = "16:9",
-    imageSize = "2K",
-  } = params;
+/**
+ * usageMetadata からトークン数を取り出す。思考トークンも出力として課金されるため出力側に含める。
+ */
+function extractUsage(responseJson: GeminiResponseShape, imageCount: number): ImageGenerationUsage {
+  const metadata = responseJson.usageMetadata ?? {};
+  const promptTokens = metadata.promptTokenCount ?? 0;
+  const outputTokens = (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0);
+  return {
+    promptTokens,
+    outputTokens,
+    totalTokens: metadata.totalTokenCount ?? promptTokens + outputTokens,
+    imageCount,
+  };
+}
 
-  const parts: Array<Record<string, unknown>> = [{ text: prompt }];
+/**
+ * 試行ごとの課金トークン数を合算する。再試行の前に失敗した試行も課金されていれば含める。
+ */
+function sumAttemptUsage(attempts: ImageGenerationAttempt[]): ImageGenerationUsage | undefined {
+  const billed = attempts.flatMap((attempt) => (attempt.usage ? [attempt.usage] : []));
+  if (billed.length === 0) {
+    return undefined;
+  }
+  return billed.reduce((total, usage) => ({
+    promptTokens: total.promptTokens + usage.promptTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+    imageCount: total.imageCount + usage.imageCount,
+  }));
+}
+
+/**
+ * 応答のテキスト部分・終了理由・ブロック理由を取り出す。ブロックされたカテゴリは
+ * blocked が立っているか、確率が HIGH の安全性評価を数える。
+ */
+export function extractGeminiFeedback(responseJson: GeminiResponseShape): GenerationFeedback {
+  const candidates = responseJson.candidates ?? [];
+  const textParts = candidates.flatMap((candidate) =>
+    (candidate.content?.parts ?? [])
+      .map((part) => (typeof part.text === "string" ? part.text.trim() : ""))
+      .filter(Boolean),
+  );
+  const ratings = [
+    ...(responseJson.promptFeedback?.safetyRatings ?? []),
+    ...candidates.flatMap((candidate) => candidate.safetyRatings ?? []),
+  ];
+  const blockedCategories = Array.from(
+    new Set(
+      ratings
+        .filter((rating) => rating.blocked || rating.probability === "HIGH")
+        .map((rating) => rating.category ?? "")
+        .filter(Boolean),
+    ),
+  );
+  return {
+    textParts,
+    finishReason: candidates.find((candidate) => candidate.finishReason)?.finishReason,
+    blockReason: responseJson.promptFeedback?.blockReason,
+    blockedCategories,
+  };
+}
 
-  const source = fs.readFileSync(inputImagePath);
-  parts.push({
+function parseRetryAfterMs(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function backoffDelayMs(attempt: number, retryAfterMs?: number): number {
+  const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1));
+  const jittered = Math.round(exponential * (0.5 + Math.random() * 0.5));
+  return Math.min(MAX_BACKOFF_MS, Math.max(jittered, retryAfterMs ?? 0));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function inlineImagePart(filePath: string): Record<string, unknown> {
+  return {
     inlineData: {
-      mimeType: mimeTypeFromPath(inputImagePath),
-      data: source.toString("base64"),
+      mimeType: mimeTypeFromPath(filePath),
+      data: fs.readFileSync(filePath).toString("base64"),
     },
-  });
+  };
+}
+
+function buildImageParts(params: {
+  prompt: string;
+  inputImagePath: string;
+  logoImagePaths: string[];
+  referenceImagePaths: string[];
+}): Array<Record<string, unknown>> {
+  const { prompt, inputImagePath, logoImagePaths, referenceImagePaths } = params;
+  const parts: Array<Record<string, unknown>> = [{ text: prompt }];
+
+  parts.push(inlineImagePart(inputImagePath));
 
   for (const logoImagePath of logoImagePaths) {
     if (!fs.existsSync(logoImagePath)) {
@@ -94,52 +249,111 @@ export async function generateImageWithGemini(params: {
     });
   }
 
-  const payload = {
-    contents: [
-      {
-        parts,
-      },
-    ],
+  return parts;
+}
+
+/**
+ * 保存済みの応答をモデルのターンとして戻す。思考（thought）パートは除き、thoughtSignature は付いたまま送る。
+ */
+function modelTurn(responseJson: unknown): Array<{ role: "model"; parts: Array<Record<string, unknown>> }> {
+  const parts = ((responseJson as GeminiResponseShape | null)?.candidates?.[0]?.content?.parts ?? []).filter(
+    (part) => part.thought !== true,
+  );
+  return parts.length > 0 ? [{ role: "model", parts }] : [];
+}
+
+/**
+ * 対話的な修正の contents。元スライドからの最初の生成 → これまでの修正指示と応答 → 現在の画像と新しい指示の順に並べる。
+ */
+function buildConversationContents(params: {
+  conversation: ImageEditConversation;
+  inputImagePath: string;
+  logoImagePaths: string[];
+  referenceImagePaths: string[];
+}): Array<Record<string, unknown>> {
+  const { conversation, inputImagePath, logoImagePaths, referenceImagePaths } = params;
+  return [
+    {
+      role: "user",
+      parts: buildImageParts({
+        prompt: conversation.rootPrompt,
+        inputImagePath,
+        logoImagePaths,
+        referenceImagePaths,
+      }),
+    },
+    ...modelTurn(conversation.rootResponseJson),
+    ...conversation.turns.flatMap((turn) => [
+      { role: "user", parts: [{ text: turn.instruction }] },
+      ...modelTurn(turn.responseJson),
+    ]),
+    {
+      role: "user",
+      parts: [{ text: conversation.instruction }, inlineImagePart(conversation.currentImagePath)],
+    },
+  ];
+}
+
+/**
+ * generateContent のリクエスト本体。同期呼び出しとバッチ投入で同じ形を使う。
+ */
+export function buildGeminiPayload(params: {
+  model: string;
+  prompt: string;
+  inputImagePath: string;
+  logoImagePaths: string[];
+  referenceImagePaths: string[];
+  aspectRatio: string;
+  imageSize: ImageSize;
+  conversation?: ImageEditConversation;
+}): Record<string, unknown> {
+  const {
+    model,
+    prompt,
+    inputImagePath,
+    logoImagePaths,
+    referenceImagePaths,
+    aspectRatio,
+    imageSize,
+    conversation,
+  } = params;
+  return {
+    contents: conversation
+      ? buildConversationContents({ conversation, inputImagePath, logoImagePaths, referenceImagePaths })
+      : [
+          {
+            parts: buildImageParts({ prompt, inputImagePath, logoImagePaths, referenceImagePaths }),
+          },
+        ],
     generationConfig: {
       responseModalities: ["TEXT", "IMAGE"],
-      imageConfig: {
-        aspectRatio,
-        imageSize,
-      },
+      imageConfig: IMAGE_SIZE_MODELS.has(model) ? { aspectRatio, imageSize } : { aspectRatio },
     },
   };
+}
 
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-    {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(payload),
-    },
-  );
+/**
+ * 正常応答（HTTP 2xx またはバッチの各行）から画像を取り出す。ブロック・画像なしは GeminiRequestError を投げる。
+ */
+export function extractGeminiImage(
+  responseJson: GeminiResponseShape,
+  status?: number,
+): Omit<ImageGenerationOutput, "attempts"> {
+  const feedback = extractGeminiFeedback(responseJson);
+  const fail = (message: string, retryable: boolean): never => {
+    const error = new GeminiRequestError(message, { retryable, status });
+    error.feedback = feedback;
+    error.usage = responseJson.usageMetadata ? extractUsage(responseJson, 0) : undefined;
+    throw error;
+  };
 
-  const responseJson = await response.json();
-  if (!response.ok) {
-    const message =
-      (responseJson as { error?: { message?: string } }).error?.message ?? "Gemini APIエラー";
-    throw new Error(message);
+  if (feedback.blockReason) {
+    fail(`安全性フィルタによりブロックされました。（${feedback.blockReason}）`, false);
   }
 
-  const candidates = (
-    responseJson as {
-      candidates?: Array<{ content?: { parts?: Array<Record<string, unknown>> } }>;
-    }
-  ).candidates ?? [];
-  const textParts: string[] = [];
-
+  const candidates = responseJson.candidates ?? [];
   for (const candidate of candidates) {
     for (const part of candidate.content?.parts ?? []) {
-      const text = typeof part.text === "string" ? part.text : "";
-      if (text) {
-        textParts.push(text);
-      }
       const inlineData = (part.inlineData ?? part.inline_data) as
         | { mimeType?: string; mime_type?: string; data?: string }
         | undefined;
@@ -149,11 +363,225 @@ export async function generateImageWithGemini(params: {
           responseJson,
           imageBytes: Buffer.from(inlineData.data, "base64"),
           mimeType,
-          textParts,
+          textParts: feedback.textParts,
+          usage: extractUsage(responseJson, 1),
+          feedback,
         };
       }
     }
   }
 
-  throw new Error("画像データがレスポンスに含まれていません。");
+  const blockedReason = candidates
+    .map((candidate) => candidate.finishReason ?? "")
+    .find((reason) => BLOCKED_FINISH_REASONS.has(reason));
+  if (blockedReason) {
+    fail(`安全性フィルタにより画像が生成されませんでした。（${blockedReason}）`, false);
+  }
+
+  return fail(
+    feedback.textParts.length > 0
+      ? `画像データがレスポンスに含まれていません。（モデルの応答: ${feedback.textParts[0].slice(0, 200)}）`
+      : "画像データがレスポンスに含まれていません。",
+    true,
+  );
+}
+
+async function requestGeminiImage(params: {
+  apiKey: string;
+  model: string;
+  payload: unknown;
+  signal?: AbortSignal;
+}): Promise<Omit<ImageGenerationOutput, "attempts">> {
+  const { apiKey, model, payload, signal } = params;
+
+  let response: Response;
+  try {
+    response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+        signal,
+      },
+    );
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : "通信エラー";
+    throw new GeminiRequestError(`Gemini APIへの接続に失敗しました: ${message}`, { retryable: true });
+  }
+
+  let responseJson: GeminiResponseShape;
+  try {
+    responseJson = (await response.json()) as GeminiResponseShape;
+  } catch {
+    throw new GeminiRequestError(`Gemini APIの応答を解析できませんでした。（HTTP ${response.status}）`, {
+      retryable: response.ok || RETRYABLE_STATUSES.has(response.status),
+      status: response.status,
+    });
+  }
+
+  if (!response.ok) {
+    const message = responseJson.error?.message ?? "Gemini APIエラー";
+    throw new GeminiRequestError(message, {
+      retryable: RETRYABLE_STATUSES.has(response.status),
+      status: response.status,
+      retryAfterMs: parseRetryAfterMs(response.headers.get("retry-after")),
+    });
+  }
+
+  return extractGeminiImage(responseJson, response.status);
+}
+
+/**
+ * Gemini で画像を1枚生成する。一時的な失敗は指数バックオフ（ジッター付き）で再試行し、
+ * 各試行の記録を attempts として返す（最終失敗時は GeminiRequestError.attempts に載せる）。
+ * 成功した応答はリクエスト本体のハッシュで data/cache に保存し、reuseIfUnchanged 指定時は
+ * 同一リクエストに対して API を呼ばずに保存済みの画像を返す。
+ * 各試行の前にモデルごとのレート制限（設定画面の毎分リクエスト数）を取得し、空きがなければ待ってから送る。
+ */
+export async function generateImageWithGemini(params: {
+  apiKey: string;
+  model: string;
+  prompt: string;
+  inputImagePath: string;
+  logoImagePaths?: string[];
+  referenceImagePaths?: string[];
+  aspectRatio?: string;
+  imageSize?: ImageSize;
+  conversation?: ImageEditConversation;
+  reuseIfUnchanged?: boolean;
+  signal?: AbortSignal;
+}): Promise<ImageGenerationOutput> {
+  const {
+    apiKey,
+    model,
+    prompt,
+    inputImagePath,
+    logoImagePaths = [],
+    referenceImagePaths = [],
+    aspectRatio = "16:9",
+    imageSize = "2K",
+    conversation,
+    reuseIfUnchanged = false,
+    signal,
+  } = params;
+
+  const payload = buildGeminiPayload({
+    model,
+    prompt,
+    inputImagePath,
+    logoImagePaths,
+    referenceImagePaths,
+    aspectRatio,
+    imageSize,
+    conversation,
+  });
+
+  const cacheKey = computeCacheKey(model, payload);
+  if (reuseIfUnchanged) {
+    const cachedImage = readCachedImage(cacheKey);
+    if (cachedImage) {
+      console.info(`[gemini] model=${model} cache hit ${cacheKey.slice(0, 12)}`);
+      return {
+        ...cachedImage,
+        attempts: [],
+        cacheKey,
+        cached: true,
+        feedback: extractGeminiFeedback(cachedImage.responseJson as GeminiResponseShape),
+      };
+    }
+  }
+
+  const attempts: ImageGenerationAttempt[] = [];
+  for (let attempt = 1; ; attempt += 1) {
+    const queuedMs = await acquireRateLimit(model, getRateLimitForModel(model), signal);
+    if (queuedMs > 0) {
+      console.info(`[gemini] model=${model} attempt=${attempt} waited ${queuedMs}ms for rate limit`);
+    }
+    const startedAt = new Date();
+    try {
+      const result = await requestGeminiImage({ apiKey, model, payload, signal });
+      attempts.push({
+        attempt,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        ok: true,
+        status: 200,
+        queuedMs,
+        usage: result.usage,
+      });
+      try {
+        writeCachedImage({
+          key: cacheKey,
+          model,
+          responseJson: result.responseJson,
+          imageBytes: result.imageBytes,
+          mimeType: result.mimeType,
+          extension: detectExt(result.mimeType),
+          textParts: result.textParts,
+        });
+      } catch (error) {
+        console.warn(`[gemini] failed to write cache ${cacheKey.slice(0, 12)}`, error);
+      }
+      return { ...result, attempts, cacheKey, cached: false, usage: sumAttemptUsage(attempts) };
+    } catch (error) {
+      if (signal?.aborted || !(error instanceof GeminiRequestError)) {
+        throw error;
+      }
+
+      const willRetry = error.retryable && attempt < MAX_ATTEMPTS;
+      const waitMs = willRetry ? backoffDelayMs(attempt, error.retryAfterMs) : undefined;
+      attempts.push({
+        attempt,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        ok: false,
+        status: error.status,
+        retryable: error.retryable,
+        error: error.message,
+        waitMs,
+        queuedMs,
+        usage: error.usage,
+      });
+
+      if (!willRetry) {
+        error.attempts = attempts;
+        error.usage = sumAttemptUsage(attempts);
+        throw error;
+      }
+
+      console.warn(
+        `[gemini] model=${model} attempt=${attempt} failed (${error.message}); retrying in ${waitMs}ms`,
+      );
+      await sleep(waitMs ?? 0, signal);
+    }
+  }
 }
+
+export const geminiImageProvider: ImageProvider = {
+  id: "gemini",
+  label: "Google Gemini",
+  defaultModel: GEMINI_DEFAULT_IMAGE_MODEL,
+  models: GEMINI_IMAGE_MODELS,
+  modelImageSizes: GEMINI_MODEL_IMAGE_SIZES,
+  requiresApiKey: true,
+  generate: ({ apiKey, prompt, sourceImagePath, logoImagePaths, referenceImagePaths, conversation, options }) =>
+    generateImageWithGemini({
+      apiKey,
+      model: options.model,
+      prompt,
+      inputImagePath: sourceImagePath,
+      logoImagePaths,
+      referenceImagePaths,
+      aspectRatio: options.aspectRatio,
+      imageSize: options.imageSize,
+      conversation,
+      reuseIfUnchanged: options.reuseIfUnchanged,
+      signal: options.signal,
+    }),
+};
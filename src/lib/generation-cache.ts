@@ -0,0 +1,132 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { CACHE_DIR, writeJsonAtomic } from "@/lib/paths";
+
+// キャッシュの上限。超えた分は最後に使ったのが古いものから消す。
+const MAX_CACHE_BYTES = 2 * 1024 * 1024 * 1024;
+const MAX_CACHE_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+type CacheEntry = {
+  key: string;
+  model: string;
+  mimeType: string;
+  imageFile: string;
+  textParts: string[];
+  responseJson: unknown;
+  createdAt: string;
+};
+
+export type CachedImage = {
+  key: string;
+  responseJson: unknown;
+  imageBytes: Buffer;
+  mimeType: string;
+  textParts: string[];
+};
+
+function getEntryPath(key: string): string {
+  return path.join(CACHE_DIR, `${path.basename(key)}.json`);
+}
+
+/**
+ * リクエスト本体（プロンプト・画像バイト列・モデル・サイズ・比率をすべて含む）のハッシュをキャッシュキーにする。
+ */
+export function computeCacheKey(model: string, payload: unknown): string {
+  return crypto.createHash("sha256").update(model).update("\n").update(JSON.stringify(payload)).digest("hex");
+}
+
+export function readCachedImage(key: string): CachedImage | null {
+  const entryPath = getEntryPath(key);
+  if (!fs.existsSync(entryPath)) {
+    return null;
+  }
+
+  try {
+    const entry = JSON.parse(fs.readFileSync(entryPath, "utf8")) as CacheEntry;
+    const imagePath = path.join(CACHE_DIR, path.basename(entry.imageFile));
+    if (!fs.existsSync(imagePath)) {
+      return null;
+    }
+    // 最後に使った時刻として更新日時を進める（上限を超えたときに消す順番に使う）。
+    const now = new Date();
+    fs.utimesSync(entryPath, now, now);
+    return {
+      key,
+      responseJson: entry.responseJson,
+      imageBytes: fs.readFileSync(imagePath),
+      mimeType: entry.mimeType,
+      textParts: Array.isArray(entry.textParts) ? entry.textParts : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function writeCachedImage(params: {
+  key: string;
+  model: string;
+  responseJson: unknown;
+  imageBytes: Buffer;
+  mimeType: string;
+  extension: string;
+  textParts: string[];
+}): void {
+  const { key, model, responseJson, imageBytes, mimeType, extension, textParts } = params;
+  const imageFile = `${key}.${extension}`;
+  fs.mkdirSync(CACHE_DIR, { recursive: true });
+  fs.writeFileSync(path.join(CACHE_DIR, imageFile), imageBytes);
+
+  const entry: CacheEntry = {
+    key,
+    model,
+    mimeType,
+    imageFile,
+    textParts,
+    responseJson,
+    createdAt: new Date().toISOString(),
+  };
+  writeJsonAtomic(getEntryPath(key), entry);
+
+  try {
+    pruneCache(key);
+  } catch (error) {
+    console.warn("[cache] failed to prune data/cache", error);
+  }
+}
+
+/**
+ * 合計サイズと最終利用からの日数の上限を超えたキャッシュを消す。
+ * ファイル名の先頭（キー）ごとにまとめ、最後に使ったのが新しい順に残す。書き込んだばかりの keepKey は消さない。
+ */
+function pruneCache(keepKey: string): void {
+  const groups = new Map<string, { files: string[]; bytes: number; lastUsedMs: number }>();
+  for (const name of fs.readdirSync(CACHE_DIR)) {
+    const filePath = path.join(CACHE_DIR, name);
+    const stat = fs.statSync(filePath);
+    if (!stat.isFile()) {
+      continue;
+    }
+    const key = name.split(".")[0];
+    const group = groups.get(key) ?? { files: [], bytes: 0, lastUsedMs: 0 };
+    group.files.push(filePath);
+    group.bytes += stat.size;
+    group.lastUsedMs = Math.max(group.lastUsedMs, stat.mtimeMs);
+    groups.set(key, group);
+  }
+
+  const now = Date.now();
+  let totalBytes = 0;
+  const sorted = [...groups.entries()].sort((a, b) => b[1].lastUsedMs - a[1].lastUsedMs);
+  for (const [key, group] of sorted) {
+    totalBytes += group.bytes;
+    const expired = now - group.lastUsedMs > MAX_CACHE_AGE_MS || totalBytes > MAX_CACHE_BYTES;
+    if (key === keepKey || !expired) {
+      continue;
+    }
+    for (const filePath of group.files) {
+      fs.rmSync(filePath, { force: true });
+    }
+    totalBytes -= group.bytes;
+  }
+}
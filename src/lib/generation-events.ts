@@ -0,0 +1,31 @@
+import { EventEmitter } from "node:events";
+import type { GenerationTaskEvent } from "@/lib/types";
+
+// キュー（ワーカー）と SSE ルートが別バンドルでも同じエミッタを共有できるよう globalThis に保持する。
+const globalForEvents = globalThis as typeof globalThis & {
+  __generationEvents?: EventEmitter;
+};
+
+function getEmitter(): EventEmitter {
+  if (!globalForEvents.__generationEvents) {
+    const emitter = new EventEmitter();
+    emitter.setMaxListeners(0);
+    globalForEvents.__generationEvents = emitter;
+  }
+  return globalForEvents.__generationEvents;
+}
+
+export function emitTaskEvent(event: GenerationTaskEvent): void {
+  getEmitter().emit(event.taskId, event);
+}
+
+export function subscribeTaskEvents(
+  taskId: string,
+  listener: (event: GenerationTaskEvent) => void,
+): () => void {
+  const emitter = getEmitter();
+  emitter.on(taskId, listener);
+  return () => {
+    emitter.off(taskId, listener);
+  };
+}
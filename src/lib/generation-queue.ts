@@ -0,0 +1,929 @@
+import fs from "node:fs";
+import path from "node:path";
+import {
+  appendRun,
+  clearChosenVersions,
+  loadJob,
+  nextVersionForPage,
+  saveRunResults,
+  appendJobBatch,
+  updateJobBatch,
+  updateRunStatus,
+} from "@/lib/jobs-store";
+import {
+  buildEditConversation,
+  buildJobSlidePrompt,
+  CANCELLED_MESSAGE,
+  computePageInputHash,
+  createRunId,
+  fallbackLogoLockInfo,
+  findCurrentPageResult,
+  findPageVersionResult,
+  generatePageImage,
+  resolveJobImagePaths,
+} from "@/lib/generation";
+import { buildGeminiPayload, GeminiRequestError, geminiImageProvider } from "@/lib/gemini";
+import {
+  cancelGeminiBatch,
+  downloadGeminiBatchResults,
+  FINISHED_BATCH_STATES,
+  getGeminiBatchStatus,
+  submitGeminiBatch,
+} from "@/lib/gemini-batch";
+import type { GeminiBatchItemResult, GeminiBatchRequest } from "@/lib/gemini-batch";
+import { loadJobBrandKit } from "@/lib/brand-kits";
+import { getImageProvider } from "@/lib/image-providers";
+import { DEFAULT_IMAGE_SIZE, resolveImageSize } from "@/lib/image-provider";
+import type { ImageProvider } from "@/lib/image-provider";
+import { resolveJobAspectRatio } from "@/lib/aspect-ratio";
+import { emitTaskEvent } from "@/lib/generation-events";
+import { describeMaskRegions, getPromptExclusionStats } from "@/lib/prompts";
+import {
+  DEFAULT_PROMPT_TEMPLATE_ID,
+  loadPromptTemplate,
+  resolveActivePromptTemplate,
+} from "@/lib/prompt-templates";
+import { getApiKey, getGenerationSettings } from "@/lib/settings";
+import { estimatePageCost, holdSpending, releaseSpending, reserveSpending } from "@/lib/spending-limits";
+import { createTaskId, listUnfinishedTasks, loadTask, saveTask, updateTask } from "@/lib/tasks-store";
+import { BATCH_PRICE_RATE } from "@/lib/usage";
+import type {
+  GenerationResult,
+  GenerationTask,
+  GenerationTaskKind,
+  GenerationTaskPlanItem,
+  ImageSize,
+  JobRecord,
+  RegenerateEdit,
+  RetryTarget,
+  SlideInfo,
+} from "@/lib/types";
+
+type QueueEntry = {
+  jobId: string;
+  taskId: string;
+};
+
+type QueueState = {
+  pending: QueueEntry[];
+  draining: boolean;
+  recovered: boolean;
+  controllers: Map<string, AbortController>;
+  batchTimers: Map<string, ReturnType<typeof setTimeout>>;
+};
+
+// バッチの完了確認の間隔。バッチは最大24時間かかるため、その間はキューを占有せずタイマーで積み直す。
+const BATCH_POLL_INTERVAL_MS = 60_000;
+// 完了したバッチの結果を取得し直す回数の上限（結果ファイルの期限切れなどで取得できないまま確認し続けない）。
+const MAX_BATCH_DOWNLOAD_FAILURES = 5;
+
+const FALLBACK_ERROR_MESSAGES: Record<GenerationTaskKind, string> = {
+  generate: "生成に失敗しました。",
+  regenerate: "再生成に失敗しました。",
+  retry: "再試行に失敗しました。",
+  "design-check": "デザイン確認生成に失敗しました。",
+};
+
+// dev サーバーのホットリロードやルートごとのバンドルでキューが分裂しないよう globalThis に保持する。
+const globalForQueue = globalThis as typeof globalThis & {
+  __generationQueue?: QueueState;
+};
+
+function getQueueState(): QueueState {
+  if (!globalForQueue.__generationQueue) {
+    globalForQueue.__generationQueue = {
+      pending: [],
+      draining: false,
+      recovered: false,
+      controllers: new Map(),
+      batchTimers: new Map(),
+    };
+  }
+  return globalForQueue.__generationQueue;
+}
+
+/**
+ * 前回プロセスで未完了のまま残ったタスクを一度だけキューへ積み直す。
+ */
+export function resumeGenerationQueue(): void {
+  const state = getQueueState();
+  if (state.recovered) {
+    return;
+  }
+  state.recovered = true;
+
+  const tasks = listUnfinishedTasks();
+  for (const task of tasks) {
+    state.pending.push({ jobId: task.jobId, taskId: task.taskId });
+  }
+  if (tasks.length > 0) {
+    console.info(`[generation-queue] resumed ${tasks.length} unfinished task(s)`);
+    void drainQueue();
+  }
+}
+
+export function enqueueGenerationTask(params: {
+  jobId: string;
+  kind: GenerationTaskKind;
+  designPrompt: string;
+  pages: number[];
+  model?: string;
+  imageSize?: ImageSize;
+  variants?: number;
+  reuseIfUnchanged?: boolean;
+  overrideSpendingLimits?: boolean;
+  batchMode?: boolean;
+  promptTemplateId?: string;
+  promptTemplateVersion?: number;
+  edits?: RegenerateEdit[];
+  retryTargets?: RetryTarget[];
+}): GenerationTask {
+  resumeGenerationQueue();
+
+  const provider = getImageProvider(loadJob(params.jobId).imageProvider);
+  const model = params.model || provider.defaultModel;
+  const variants = params.kind === "design-check" ? 1 : Math.max(1, params.variants ?? 1);
+  if (!provider.models.includes(model)) {
+    throw new Error(`モデル「${model}」は${provider.label}では利用できません。`);
+  }
+  const batchMode = Boolean(params.batchMode) && params.kind === "generate";
+  if (batchMode && provider.id !== geminiImageProvider.id) {
+    throw new Error(`バッチ生成は${geminiImageProvider.label}でのみ利用できます。`);
+  }
+  // 再試行は失敗時のプロンプトファイルをそのまま使うので、テンプレートは元の実行のものを引き継いで記録する。
+  const template = params.promptTemplateId
+    ? { templateId: params.promptTemplateId, version: params.promptTemplateVersion }
+    : resolveActivePromptTemplate();
+  const task: GenerationTask = {
+    taskId: createTaskId(),
+    jobId: params.jobId,
+    kind: params.kind,
+    status: "queued",
+    runId: createRunId(params.kind === "design-check" ? "designcheck_" : ""),
+    provider: provider.id,
+    model,
+    imageSize: resolveImageSize(provider, model, params.imageSize),
+    variants,
+    // 複数候補は同一リクエストでも別の画像が欲しいので、キャッシュ再利用の対象にしない。
+    reuseIfUnchanged: Boolean(params.reuseIfUnchanged) && variants === 1 && !batchMode,
+    overrideSpendingLimits: params.overrideSpendingLimits || undefined,
+    batchMode: batchMode || undefined,
+    designPrompt: params.designPrompt,
+    promptTemplateId: template.templateId,
+    promptTemplateVersion: template.version,
+    pages: params.pages,
+    edits: params.edits,
+    retryTargets: params.retryTargets,
+    results: [],
+    createdAt: new Date().toISOString(),
+  };
+  saveTask(task);
+  if (task.overrideSpendingLimits) {
+    console.warn(`[generation-queue] task=${task.taskId} job=${task.jobId} runs with spending limits overridden`);
+  }
+
+  getQueueState().pending.push({ jobId: task.jobId, taskId: task.taskId });
+  void drainQueue();
+  return task;
+}
+
+/**
+ * 順番待ちのタスクはそのまま中止し、実行中のタスクは AbortSignal で残りページを打ち切る。
+ * 実行中タスクの最終状態（cancelled）はワーカー側で記録される。
+ */
+export function cancelGenerationTask(jobId: string, taskId: string): GenerationTask {
+  const state = getQueueState();
+  const task = loadTask(jobId, taskId);
+  if (task.status !== "queued" && task.status !== "running") {
+    throw new Error("この生成タスクは既に終了しています。");
+  }
+
+  const controller = state.controllers.get(taskId);
+  if (controller) {
+    controller.abort();
+    return task;
+  }
+
+  const batchTimer = state.batchTimers.get(taskId);
+  if (batchTimer) {
+    clearTimeout(batchTimer);
+    state.batchTimers.delete(taskId);
+  }
+  const cancelledAt = new Date().toISOString();
+  if (task.batchName) {
+    const apiKey = getApiKey();
+    const batchName = task.batchName;
+    if (apiKey) {
+      void cancelGeminiBatch({ apiKey, batchName }).catch((error) =>
+        console.warn(`[generation-queue] task=${taskId} could not cancel batch ${batchName}`, error),
+      );
+    }
+    // 以降は確認しないので、バッチ一覧でも実行中のまま残らないよう中止として記録する。
+    updateJobBatch(jobId, batchName, { state: "cancelled", finishedAt: cancelledAt });
+  }
+
+  state.pending = state.pending.filter((entry) => entry.taskId !== taskId);
+  releaseSpending(batchSpendingKey(task));
+  const cancelled = updateTask(jobId, taskId, (row) => {
+    row.status = "cancelled";
+    row.batchState = row.batchName ? "cancelled" : row.batchState;
+    row.finishedAt = cancelledAt;
+  });
+  if (cancelled.kind !== "design-check" && loadJob(jobId).runs.some((run) => run.runId === cancelled.runId)) {
+    updateRunStatus(jobId, cancelled.runId, "partial");
+  }
+  emitTaskStatus(cancelled);
+  return cancelled;
+}
+
+async function drainQueue(): Promise<void> {
+  const state = getQueueState();
+  if (state.draining) {
+    return;
+  }
+
+  state.draining = true;
+  try {
+    while (state.pending.length > 0) {
+      const entry = state.pending.shift()!;
+      try {
+        await processTask(entry.jobId, entry.taskId);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "生成タスクの実行に失敗しました。";
+        console.error(`[generation-queue] task=${entry.taskId} failed: ${message}`);
+        markTaskFailed(entry, message);
+      }
+    }
+  } finally {
+    state.draining = false;
+  }
+}
+
+function markTaskFailed(entry: QueueEntry, message: string): void {
+  releaseSpending(batchSpendingKey(entry));
+  try {
+    const task = updateTask(entry.jobId, entry.taskId, (row) => {
+      row.status = "failed";
+      row.error = message;
+      row.finishedAt = new Date().toISOString();
+    });
+    emitTaskStatus(task);
+    if (task.kind !== "design-check" && loadJob(task.jobId).runs.some((run) => run.runId === task.runId)) {
+      updateRunStatus(task.jobId, task.runId, "failed");
+    }
+  } catch (error) {
+    console.error(`[generation-queue] task=${entry.taskId} could not be marked as failed`, error);
+  }
+}
+
+function emitTaskStatus(task: GenerationTask): void {
+  emitTaskEvent({
+    type: "task",
+    taskId: task.taskId,
+    status: task.status,
+    at: new Date().toISOString(),
+    completedPages: task.results.length,
+    totalPages: task.plan?.length ?? task.pages.length,
+    batchState: task.batchState,
+    error: task.error,
+  });
+}
+
+function buildTaskPlan(job: JobRecord, task: GenerationTask): GenerationTaskPlanItem[] {
+  if (task.kind === "design-check") {
+    return task.pages.map((page) => ({ page, version: 0 }));
+  }
+
+  const nextVersions = new Map<number, number>();
+  const takeVersion = (page: number): number => {
+    const version = nextVersions.get(page) ?? nextVersionForPage(job, page);
+    nextVersions.set(page, version + 1);
+    return version;
+  };
+
+  // 候補を複数作る場合は、同じページに連番の版（兄弟版）を割り当てる。
+  const variants = Math.max(1, task.variants ?? 1);
+  const expand = <T>(item: T): T[] => Array.from({ length: variants }, () => item);
+
+  if (task.kind === "regenerate") {
+    return (task.edits ?? []).flatMap(expand).map((edit) => {
+      const exists = job.slides.some((slide) => slide.page === edit.page);
+      // 現在の画像から続けて直す指定・範囲指定でも、まだ成功結果のないページは元スライドから全体を生成する。
+      const current = exists ? findCurrentPageResult(job, edit.page) : undefined;
+      // 範囲は画面で選んでいた版（過去の版や別の候補のこともある）に描かれているので、その版に貼り込み、続けて直す場合もその版から直す。
+      const maskBaseVersion = current && edit.maskRects?.length ? (edit.maskBaseVersion ?? current.version) : undefined;
+      const maskRects = maskBaseVersion === undefined ? undefined : edit.maskRects;
+      return {
+        page: edit.page,
+        version: exists ? takeVersion(edit.page) : 0,
+        fixPrompt: maskRects ? `${edit.fixPrompt}\n\n${describeMaskRegions(maskRects)}` : edit.fixPrompt,
+        editedFromVersion: edit.continueFromCurrent ? (maskBaseVersion ?? current?.version) : undefined,
+        maskRects,
+        maskBaseVersion,
+      };
+    });
+  }
+
+  if (task.kind === "retry") {
+    return (task.retryTargets ?? []).map((target) => ({
+      page: target.page,
+      version: takeVersion(target.page),
+      promptFile: target.promptFile,
+      fixPrompt: target.fixPrompt,
+      editedFromVersion: target.editedFromVersion,
+      maskRects: target.maskRects,
+      maskBaseVersion: target.maskBaseVersion,
+    }));
+  }
+
+  return task.pages.flatMap(expand).map((page) => ({ page, version: takeVersion(page) }));
+}
+
+function planItemKey(item: Pick<GenerationTaskPlanItem, "page" | "version">): string {
+  return `${item.page}:${item.version}`;
+}
+
+// 実行中ページの見込み額の予約キー。
+function spendingKey(task: GenerationTask, item: Pick<GenerationTaskPlanItem, "page" | "version">): string {
+  return `${task.taskId}:${planItemKey(item)}`;
+}
+
+// 結果待ちのバッチ全体の見込み額の予約キー。
+function batchSpendingKey(task: Pick<GenerationTask, "taskId">): string {
+  return `${task.taskId}:batch`;
+}
+
+function planItemFileStem(task: GenerationTask, item: GenerationTaskPlanItem): string {
+  const pageLabel = String(item.page).padStart(3, "0");
+  return task.kind === "design-check"
+    ? `${task.runId}_page${pageLabel}`
+    : `${task.runId}_page${pageLabel}_v${item.version}`;
+}
+
+/**
+ * items を最大 limit 件ずつ並列に処理する。各ワーカーは空いた時点で次の要素を取りに行く。
+ * 1つのワーカーが例外で止まっても、ほかのワーカーが処理中のページを終えるまで待ってから例外を返す
+ * （実行中の API 呼び出しを残したままタスクを終わらせない）。
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+): Promise<void> {
+  let cursor = 0;
+  const runnerCount = Math.max(1, Math.min(limit, items.length));
+  const runners = Array.from({ length: runnerCount }, async () => {
+    while (cursor < items.length) {
+      const item = items[cursor];
+      cursor += 1;
+      await worker(item);
+    }
+  });
+  const settled = await Promise.allSettled(runners);
+  const failed = settled.find((row): row is PromiseRejectedResult => row.status === "rejected");
+  if (failed) {
+    throw failed.reason;
+  }
+}
+
+/**
+ * 結果に残す修正の指定。失敗・中止した結果にも残し、再試行で同じ指定を復元できるようにする。
+ */
+function planItemEditInfo(
+  item: GenerationTaskPlanItem,
+): Pick<GenerationResult, "fixPrompt" | "editedFromVersion" | "maskRects" | "maskBaseVersion"> {
+  return {
+    fixPrompt: item.fixPrompt,
+    editedFromVersion: item.editedFromVersion,
+    maskRects: item.maskRects,
+    maskBaseVersion: item.maskBaseVersion,
+  };
+}
+
+function errorResult(item: GenerationTaskPlanItem, message: string): GenerationResult {
+  return {
+    page: item.page,
+    version: item.version,
+    promptFile: "",
+    outputImageFile: "",
+    responseJsonFile: "",
+    status: "error",
+    logoLock: fallbackLogoLockInfo(message),
+    error: message,
+    ...planItemEditInfo(item),
+  };
+}
+
+function cancelledResult(item: GenerationTaskPlanItem): GenerationResult {
+  return {
+    page: item.page,
+    version: item.version,
+    promptFile: "",
+    outputImageFile: "",
+    responseJsonFile: "",
+    status: "cancelled",
+    error: CANCELLED_MESSAGE,
+    ...planItemEditInfo(item),
+  };
+}
+
+/**
+ * 計画1件分のプロンプト。promptFile があればそれを、なければジョブの現在の状態から組み立てる。
+ */
+function resolvePlanItemPrompt(params: {
+  job: JobRecord;
+  task: GenerationTask;
+  item: GenerationTaskPlanItem;
+  slide: SlideInfo;
+}): string | null {
+  const { job, task, item, slide } = params;
+  const { jobDir } = resolveJobImagePaths(job);
+  const sourcePromptPath = item.promptFile ? path.join(jobDir, item.promptFile) : "";
+  if (sourcePromptPath && fs.existsSync(sourcePromptPath)) {
+    // 再試行は失敗時と同じプロンプトをそのまま使う（修正指示の追加やメモ除外の再計算はしない）。
+    // バッチも投入時に保存したプロンプトを使い、結果の保存時に組み立て直さない。
+    return fs.readFileSync(sourcePromptPath, "utf8");
+  }
+  if (!task.designPrompt.trim()) {
+    return null;
+  }
+
+  const prompt = buildJobSlidePrompt({
+    job,
+    slide,
+    designPrompt: task.designPrompt,
+    extraFixPrompt: item.fixPrompt,
+    template: loadPromptTemplate(task.promptTemplateId ?? DEFAULT_PROMPT_TEMPLATE_ID, task.promptTemplateVersion).body,
+  });
+  const stats = getPromptExclusionStats({
+    slide,
+    memoDecisions: job.memoDecisions,
+    manualMemoExclusions: job.manualMemoExclusions,
+  });
+  console.info(
+    `[memo-exclusion] job=${job.jobId} page=${item.page} auto=${stats.autoExcludedCount} manual=${stats.manualExcludedCount}`,
+  );
+  return prompt;
+}
+
+async function runPlanItem(params: {
+  provider: ImageProvider;
+  apiKey: string;
+  job: JobRecord;
+  task: GenerationTask;
+  item: GenerationTaskPlanItem;
+  signal: AbortSignal;
+}): Promise<GenerationResult> {
+  const { provider, apiKey, job, task, item, signal } = params;
+  const slide = job.slides.find((row) => row.page === item.page);
+  if (!slide) {
+    return errorResult(item, `ページ ${item.page} が見つかりません。`);
+  }
+
+  const { jobDir, referenceImagePaths, logoImagePaths } = resolveJobImagePaths(job);
+  const edit =
+    item.editedFromVersion === undefined
+      ? null
+      : buildEditConversation({
+          job,
+          page: item.page,
+          version: item.editedFromVersion,
+          fixPrompt: item.fixPrompt ?? "",
+        });
+  if (item.editedFromVersion !== undefined && !edit) {
+    return errorResult(item, `ページ ${item.page} の v${item.editedFromVersion} の画像または履歴が見つかりません。`);
+  }
+  const prompt = edit ? edit.prompt : resolvePlanItemPrompt({ job, task, item, slide });
+  if (prompt === null) {
+    return errorResult(item, `ページ ${item.page} の元プロンプトが見つかりません。`);
+  }
+
+  const maskBase =
+    item.maskBaseVersion === undefined ? undefined : findPageVersionResult(job, item.page, item.maskBaseVersion);
+  if (item.maskBaseVersion !== undefined && !maskBase?.outputImageFile) {
+    return errorResult(item, `範囲指定の貼り込み先（ページ ${item.page} の v${item.maskBaseVersion}）が見つかりません。`);
+  }
+
+  // バッチは投入時にまとめて確認済み（結果の保存時点では課金が済んでいる）。
+  // 並列実行中のページも数えるため、確認と同時にこのページの見込み額を予約する（保存後にワーカーが外す）。
+  const imageSize = task.imageSize ?? DEFAULT_IMAGE_SIZE;
+  if (!task.overrideSpendingLimits && !task.batchMode) {
+    const limitMessage = reserveSpending({
+      key: spendingKey(task, item),
+      jobId: job.jobId,
+      estimatedCostUsd: estimatePageCost({
+        model: task.model,
+        imageSize,
+        prompt,
+        inputImageCount: 1 + logoImagePaths.length + referenceImagePaths.length,
+      }),
+    });
+    if (limitMessage) {
+      return errorResult(item, limitMessage);
+    }
+  }
+
+  const isDesignCheck = task.kind === "design-check";
+  const sourceSlidePath = path.join(jobDir, "source", "slides", slide.sourceImageFile);
+  const inputHash = computePageInputHash({
+    job,
+    slide,
+    designPrompt: task.designPrompt,
+    template: loadPromptTemplate(task.promptTemplateId ?? DEFAULT_PROMPT_TEMPLATE_ID, task.promptTemplateVersion).body,
+  });
+
+  const result = await generatePageImage({
+    provider,
+    apiKey,
+    model: task.model,
+    imageSize,
+    aspectRatio: resolveJobAspectRatio(job),
+    reuseIfUnchanged: task.reuseIfUnchanged,
+    jobDir,
+    fileStem: planItemFileStem(task, item),
+    outputDir: isDesignCheck ? path.join("outputs", "design-check") : "outputs",
+    page: item.page,
+    version: item.version,
+    prompt,
+    sourceSlidePath,
+    logoImagePaths,
+    referenceImagePaths,
+    conversation: edit?.conversation,
+    maskComposite:
+      maskBase && item.maskRects
+        ? { baseImagePath: path.join(jobDir, maskBase.outputImageFile), rects: item.maskRects }
+        : undefined,
+    brandKit: loadJobBrandKit(job),
+    fallbackErrorMessage: FALLBACK_ERROR_MESSAGES[task.kind],
+    signal,
+    onStage: (stage) =>
+      emitTaskEvent({
+        type: "page",
+        taskId: task.taskId,
+        page: item.page,
+        version: item.version,
+        stage,
+        at: new Date().toISOString(),
+      }),
+  });
+  return {
+    ...result,
+    inputHash: result.status === "success" ? inputHash : undefined,
+    ...planItemEditInfo(item),
+  };
+}
+
+type BatchOutcome = {
+  results: Map<string, GeminiBatchItemResult>;
+  failureMessage?: string;
+};
+
+// 投入・確認・結果の取得を待っている間に中止されたか（タスクファイルを読み直して確かめる）。
+function wasCancelledMeanwhile(task: GenerationTask): boolean {
+  return loadTask(task.jobId, task.taskId).status === "cancelled";
+}
+
+function scheduleBatchPoll(task: GenerationTask): void {
+  const state = getQueueState();
+  if (state.batchTimers.has(task.taskId)) {
+    return;
+  }
+  const timer = setTimeout(() => {
+    state.batchTimers.delete(task.taskId);
+    state.pending.push({ jobId: task.jobId, taskId: task.taskId });
+    void drainQueue();
+  }, BATCH_POLL_INTERVAL_MS);
+  state.batchTimers.set(task.taskId, timer);
+}
+
+/**
+ * 計画の全ページのプロンプトを保存し、リクエストを1つのバッチとして投入する。
+ * 利用上限は投入前にバッチ全体の見込み額で確認し、超える場合は投入しない。プロンプトの組み立てに失敗したページはバッチに含めず、結果の保存時にエラーになる。
+ * 投入を待つ間に中止された場合は、投入したバッチを取り消して null を返す。
+ */
+async function submitBatchTask(params: {
+  apiKey: string;
+  job: JobRecord;
+  task: GenerationTask;
+  plan: GenerationTaskPlanItem[];
+}): Promise<GenerationTask | null> {
+  const { apiKey, job, task, plan } = params;
+  const { jobDir, referenceImagePaths, logoImagePaths } = resolveJobImagePaths(job);
+  const aspectRatio = resolveJobAspectRatio(job);
+  const imageSize = task.imageSize ?? DEFAULT_IMAGE_SIZE;
+  const prepared = plan.map((item) => {
+    const slide = job.slides.find((row) => row.page === item.page);
+    return { item, slide, prompt: slide ? resolvePlanItemPrompt({ job, task, item, slide }) : null };
+  });
+
+  // バッチ全体の見込み額で上限を確認し、結果を保存するまで予約しておく。
+  const estimatedCostUsd =
+    prepared.reduce(
+      (sum, { prompt }) =>
+        prompt === null
+          ? sum
+          : sum +
+            estimatePageCost({
+              model: task.model,
+              imageSize,
+              prompt,
+              inputImageCount: 1 + logoImagePaths.length + referenceImagePaths.length,
+            }),
+      0,
+    ) * BATCH_PRICE_RATE;
+  if (!task.overrideSpendingLimits) {
+    const limitMessage = reserveSpending({ key: batchSpendingKey(task), jobId: job.jobId, estimatedCostUsd });
+    if (limitMessage) {
+      throw new Error(limitMessage);
+    }
+  }
+
+  const requests: GeminiBatchRequest[] = [];
+  const batchPlan = prepared.map(({ item, slide, prompt }) => {
+    if (!slide || prompt === null) {
+      return item;
+    }
+    const promptFile = `prompts/${planItemFileStem(task, item)}.txt`;
+    fs.writeFileSync(path.join(jobDir, promptFile), prompt, "utf8");
+    requests.push({
+      key: planItemKey(item),
+      payload: buildGeminiPayload({
+        model: task.model,
+        prompt,
+        inputImagePath: path.join(jobDir, "source", "slides", slide.sourceImageFile),
+        logoImagePaths,
+        referenceImagePaths,
+        aspectRatio,
+        imageSize,
+      }),
+    });
+    return { ...item, promptFile };
+  });
+  if (requests.length === 0) {
+    releaseSpending(batchSpendingKey(task));
+    throw new Error("バッチに投入できるページがありません。");
+  }
+
+  let batchName: string;
+  try {
+    batchName = await submitGeminiBatch({
+      apiKey,
+      model: task.model,
+      displayName: `${job.jobId}_${task.runId}`,
+      requests,
+    });
+  } catch (error) {
+    releaseSpending(batchSpendingKey(task));
+    throw error;
+  }
+  const submittedAt = new Date().toISOString();
+  // 投入中の中止はバッチ名が分からず取り消せていないので、ここで取り消して中止として記録する。
+  const cancelled = wasCancelledMeanwhile(task);
+  if (cancelled) {
+    await cancelGeminiBatch({ apiKey, batchName }).catch((error) =>
+      console.warn(`[generation-queue] task=${task.taskId} could not cancel batch ${batchName}`, error),
+    );
+  }
+  const submitted = updateTask(job.jobId, task.taskId, (row) => {
+    row.plan = batchPlan;
+    row.batchName = batchName;
+    row.batchState = cancelled ? "cancelled" : "pending";
+    row.batchEstimatedCostUsd = task.overrideSpendingLimits ? undefined : estimatedCostUsd;
+  });
+  appendJobBatch(job.jobId, {
+    batchName,
+    taskId: task.taskId,
+    runId: task.runId,
+    model: task.model,
+    state: cancelled ? "cancelled" : "pending",
+    requestCount: requests.length,
+    submittedAt,
+    finishedAt: cancelled ? new Date().toISOString() : undefined,
+  });
+  if (cancelled) {
+    releaseSpending(batchSpendingKey(task));
+    console.info(`[generation-queue] task=${task.taskId} cancelled batch ${batchName} right after submission`);
+    return null;
+  }
+  console.info(`[generation-queue] task=${task.taskId} submitted batch ${batchName} (${requests.length} request(s))`);
+  return submitted;
+}
+
+/**
+ * バッチの状態を確認する。未完了（または確認に失敗）なら次の確認を予約して null を返し、
+ * 終了していればページごとの結果を返す。待っている間に中止されたら、中止の記録を上書きせずに null を返す。
+ */
+async function pollBatchTask(apiKey: string, task: GenerationTask): Promise<BatchOutcome | null> {
+  const batchName = task.batchName!;
+  let status;
+  try {
+    status = await getGeminiBatchStatus({ apiKey, batchName });
+  } catch (error) {
+    console.warn(`[generation-queue] task=${task.taskId} could not check batch ${batchName}`, error);
+    scheduleBatchPoll(task);
+    return null;
+  }
+  if (wasCancelledMeanwhile(task)) {
+    return null;
+  }
+
+  const checkedAt = new Date().toISOString();
+  const finished = FINISHED_BATCH_STATES.has(status.state);
+  const updated = updateTask(task.jobId, task.taskId, (row) => {
+    row.batchState = status.state;
+  });
+  updateJobBatch(task.jobId, batchName, {
+    state: status.state,
+    checkedAt,
+    finishedAt: finished ? checkedAt : undefined,
+    error: status.error,
+  });
+  emitTaskStatus(updated);
+
+  if (!finished) {
+    scheduleBatchPoll(updated);
+    return null;
+  }
+  if (status.state === "succeeded" && status.responsesFile) {
+    try {
+      const results = await downloadGeminiBatchResults({ apiKey, responsesFile: status.responsesFile });
+      return wasCancelledMeanwhile(task) ? null : { results };
+    } catch (error) {
+      if (wasCancelledMeanwhile(task)) {
+        return null;
+      }
+      // 課金済みの結果を失わないよう、上限の回数までは失敗にせず次の確認で取得し直す。
+      console.warn(`[generation-queue] task=${task.taskId} could not download results of batch ${batchName}`, error);
+      const reason = error instanceof Error ? error.message : String(error);
+      const retried = updateTask(task.jobId, task.taskId, (row) => {
+        row.batchDownloadFailures = (row.batchDownloadFailures ?? 0) + 1;
+      });
+      if ((retried.batchDownloadFailures ?? 0) >= MAX_BATCH_DOWNLOAD_FAILURES) {
+        const message = `バッチ結果の取得に${MAX_BATCH_DOWNLOAD_FAILURES}回失敗しました。（${reason}）`;
+        updateJobBatch(task.jobId, batchName, { error: message });
+        throw new Error(message);
+      }
+      updateJobBatch(task.jobId, batchName, {
+        error: `結果の取得に失敗しました。次の確認で取得し直します。（${reason}）`,
+      });
+      scheduleBatchPoll(retried);
+      return null;
+    }
+  }
+  return {
+    results: new Map(),
+    failureMessage: status.error ?? `バッチが完了しませんでした。（${status.state}）`,
+  };
+}
+
+/**
+ * バッチ結果の1ページ分を返すプロバイダー。以降のロゴ固定・保存は通常の生成と同じ処理に任せる。
+ */
+function batchItemProvider(provider: ImageProvider, outcome: BatchOutcome, item: GenerationTaskPlanItem): ImageProvider {
+  return {
+    ...provider,
+    generate: async () => {
+      const entry = outcome.results.get(planItemKey(item));
+      if (!entry) {
+        throw new GeminiRequestError(outcome.failureMessage ?? "バッチ結果にこのページの応答が含まれていません。", {
+          retryable: false,
+        });
+      }
+      if (!entry.ok) {
+        entry.error.batch = true;
+        throw entry.error;
+      }
+      return { ...entry.output, attempts: [], batch: true };
+    },
+  };
+}
+
+async function processTask(jobId: string, taskId: string): Promise<void> {
+  const queued = loadTask(jobId, taskId);
+  if (queued.status !== "queued" && queued.status !== "running") {
+    return;
+  }
+
+  const provider = getImageProvider(queued.provider);
+  const apiKey = provider.requiresApiKey ? getApiKey() ?? "" : "";
+  if (provider.requiresApiKey && !apiKey) {
+    throw new Error("APIキーが未設定です。設定画面で登録してください。");
+  }
+
+  const job = loadJob(jobId);
+  const plan = queued.plan ?? buildTaskPlan(job, queued);
+  const task = updateTask(jobId, taskId, (row) => {
+    row.status = "running";
+    row.startedAt = row.startedAt ?? new Date().toISOString();
+    row.plan = plan;
+  });
+  emitTaskStatus(task);
+
+  if (task.kind !== "design-check" && !job.runs.some((run) => run.runId === task.runId)) {
+    appendRun(jobId, {
+      runId: task.runId,
+      type: task.kind,
+      provider: provider.id,
+      model: task.model,
+      imageSize: task.imageSize,
+      variants: task.variants,
+      designPrompt: task.designPrompt,
+      promptTemplateId: task.promptTemplateId,
+      promptTemplateVersion: task.promptTemplateVersion,
+      createdAt: new Date().toISOString(),
+      status: "running",
+      taskId: task.taskId,
+      results: [],
+    });
+    clearChosenVersions(jobId, Array.from(new Set(plan.map((item) => item.page))));
+  }
+
+  let batchOutcome: BatchOutcome | null = null;
+  if (task.batchMode) {
+    if (!task.batchName) {
+      const submitted = await submitBatchTask({ apiKey, job, task, plan });
+      if (submitted) {
+        scheduleBatchPoll(submitted);
+      }
+      return;
+    }
+    // 再起動で予約が消えていても、結果を保存するまではバッチの見込み額を数える。
+    if (task.batchEstimatedCostUsd !== undefined) {
+      holdSpending({ key: batchSpendingKey(task), jobId, estimatedCostUsd: task.batchEstimatedCostUsd });
+    }
+    batchOutcome = await pollBatchTask(apiKey, task);
+    if (!batchOutcome) {
+      return;
+    }
+  }
+
+  const controller = new AbortController();
+  const { controllers } = getQueueState();
+  controllers.set(taskId, controller);
+
+  // 完了順ではなく計画順で results を保存する。job.json / タスクJSONの更新は同期I/Oで完結するため、
+  // 並列ワーカー間で読み込み〜書き込みが割り込まれることはない。
+  const resultsByKey = new Map(task.results.map((result) => [planItemKey(result), result]));
+  const orderedResults = () =>
+    plan
+      .map((item) => resultsByKey.get(planItemKey(item)))
+      .filter((result): result is GenerationResult => Boolean(result));
+  const remaining = plan.filter((item) => !resultsByKey.has(planItemKey(item)));
+  const { concurrency } = getGenerationSettings();
+
+  try {
+    await runWithConcurrency(remaining, concurrency, async (item) => {
+      // ブランドキットの読み込みやファイル書き込みの例外は、そのページの失敗として記録して残りのページを続ける。
+      const result = controller.signal.aborted
+        ? cancelledResult(item)
+        : await runPlanItem({
+            provider: batchOutcome ? batchItemProvider(provider, batchOutcome, item) : provider,
+            apiKey,
+            job,
+            task,
+            item,
+            signal: controller.signal,
+          }).catch((error: unknown) =>
+            errorResult(item, error instanceof Error ? error.message : FALLBACK_ERROR_MESSAGES[task.kind]),
+          );
+      resultsByKey.set(planItemKey(item), result);
+      const results = orderedResults();
+      updateTask(jobId, taskId, (row) => {
+        row.results = results;
+      });
+      if (task.kind !== "design-check") {
+        saveRunResults(jobId, task.runId, results);
+      }
+      // 結果（usage）が保存されて集計に現れたので、見込み額の予約を外す。
+      releaseSpending(spendingKey(task, item));
+      emitTaskEvent({
+        type: "page",
+        taskId,
+        page: result.page,
+        version: result.version,
+        stage: result.status === "success" ? "saved" : result.status,
+        at: new Date().toISOString(),
+        message: result.error,
+        result,
+      });
+    });
+  } finally {
+    controllers.delete(taskId);
+    // 途中で例外になったページの予約も残さない。バッチの予約も結果の保存が終わったので外す。
+    for (const item of remaining) {
+      releaseSpending(spendingKey(task, item));
+    }
+    releaseSpending(batchSpendingKey(task));
+  }
+
+  const finalTask = loadTask(jobId, taskId);
+  const wasCancelled = finalTask.results.some((result) => result.status === "cancelled");
+  if (task.kind !== "design-check") {
+    updateRunStatus(jobId, task.runId, wasCancelled ? "partial" : "completed");
+  }
+  const completed = updateTask(jobId, taskId, (row) => {
+    row.status = wasCancelled ? "cancelled" : "completed";
+    row.finishedAt = new Date().toISOString();
+  });
+  emitTaskStatus(completed);
+}
@@ -0,0 +1,463 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { resolveJobAspectRatio } from "@/lib/aspect-ratio";
+import { applyLogoLock } from "@/lib/logo-lock";
+import { compositeMaskedRegions } from "@/lib/mask-composite";
+import { imageExtensionFromMime } from "@/lib/gemini";
+import { ImageProviderError } from "@/lib/image-provider";
+import type { ImageEditConversation, ImageGenerationAttempt, ImageGenerationUsage, ImageProvider } from "@/lib/image-provider";
+import { getJobDir } from "@/lib/paths";
+import { checkBrandPalette } from "@/lib/brand-color-check";
+import { describeBrandConstraints, loadJobBrandKit } from "@/lib/brand-kits";
+import { resolveActivePromptTemplate } from "@/lib/prompt-templates";
+import { buildConversationalFixPrompt, buildPromptForSlide } from "@/lib/prompts";
+import { getModelPrices } from "@/lib/settings";
+import { BATCH_PRICE_RATE, estimateUsageCost } from "@/lib/usage";
+import type {
+  BrandKit,
+  GenerationFeedback,
+  GenerationPageStage,
+  GenerationResult,
+  GenerationUsage,
+  ImageSize,
+  JobRecord,
+  LogoLockInfo,
+  MaskRect,
+  SlideInfo,
+} from "@/lib/types";
+
+export const CANCELLED_MESSAGE = "生成を中止しました。";
+export const MAX_VARIANTS_PER_PAGE = 4;
+// 対話的な修正で履歴に含める直近の修正の数。応答の画像が積み重なってリクエスト上限を超えないようにする。
+const MAX_CONVERSATION_TURNS = 4;
+
+export function createRunId(prefix = ""): string {
+  const now = new Date();
+  return `${prefix}${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, "0")}${String(now.getDate()).padStart(2, "0")}_${String(now.getHours()).padStart(2, "0")}${String(now.getMinutes()).padStart(2, "0")}${String(now.getSeconds()).padStart(2, "0")}_${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function fallbackLogoLockInfo(message: string): LogoLockInfo {
+  return {
+    applied: true,
+    logoCount: 0,
+    detections: [],
+    verificationScores: [],
+    verified: false,
+    message,
+  };
+}
+
+export function resolveJobImagePaths(job: JobRecord): {
+  jobDir: string;
+  referenceImagePaths: string[];
+  logoImagePaths: string[];
+} {
+  const jobDir = getJobDir(job.jobId);
+  return {
+    jobDir,
+    referenceImagePaths: (job.designReferenceFiles ?? []).map((file) => path.join(jobDir, file)),
+    logoImagePaths: (job.logoReferenceFiles ?? []).map((file) => path.join(jobDir, file)),
+  };
+}
+
+/**
+ * ジョブの現在の状態（メモ除外・ロゴ枚数・比率）でスライド1枚分の実効プロンプトを組み立てる。
+ * template を省略すると設定で選ばれているプロンプトテンプレートの最新版を使う。
+ */
+export function buildJobSlidePrompt(params: {
+  job: JobRecord;
+  slide: SlideInfo;
+  designPrompt: string;
+  extraFixPrompt?: string;
+  template?: string;
+}): string {
+  const { job, slide, designPrompt, extraFixPrompt, template = resolveActivePromptTemplate().body } = params;
+  return buildPromptForSlide({
+    slide,
+    designPrompt,
+    memoDecisions: job.memoDecisions,
+    manualMemoExclusions: job.manualMemoExclusions,
+    extraFixPrompt,
+    logoReferenceCount: (job.logoReferenceFiles ?? []).length,
+    aspectRatio: resolveJobAspectRatio(job),
+    brandConstraints: describeBrandConstraints(loadJobBrandKit(job)),
+    template,
+  });
+}
+
+/**
+ * ページの基本入力（修正指示を含まないスライドのプロンプトと、元スライド・ロゴ・参考画像のバイト列）のハッシュ。
+ * 前回成功時の値と比べて、入力が変わったページだけを再生成するために使う。修正指示・範囲指定・修正履歴は
+ * リクエストごとの差分なので含めない（含めると、修正したページが毎回「変更あり」になり修正が上書きされる）。
+ */
+export function computePageInputHash(params: {
+  job: JobRecord;
+  slide: SlideInfo;
+  designPrompt: string;
+  template?: string;
+}): string {
+  const { job, slide, designPrompt, template } = params;
+  const { jobDir, referenceImagePaths, logoImagePaths } = resolveJobImagePaths(job);
+  const sourceSlidePath = path.join(jobDir, "source", "slides", slide.sourceImageFile);
+  const hash = crypto.createHash("sha256").update(buildJobSlidePrompt({ job, slide, designPrompt, template }));
+  for (const filePath of [sourceSlidePath, ...logoImagePaths, ...referenceImagePaths]) {
+    hash.update("\n");
+    if (fs.existsSync(filePath)) {
+      hash.update(fs.readFileSync(filePath));
+    }
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * ページごとの「資料に使われている版」（採用版があればそれ、なければ最新の成功結果）。
+ */
+function collectCurrentResults(job: JobRecord): Map<number, GenerationResult> {
+  const currentResults = new Map<number, GenerationResult>();
+  for (const run of job.runs) {
+    for (const result of run.results) {
+      if (result.status !== "success") {
+        continue;
+      }
+      const chosenVersion = job.chosenVersions?.[String(result.page)];
+      const pinned =
+        chosenVersion !== undefined && currentResults.get(result.page)?.version === chosenVersion;
+      if (!pinned) {
+        currentResults.set(result.page, result);
+      }
+    }
+  }
+  return currentResults;
+}
+
+export function findCurrentPageResult(job: JobRecord, page: number): GenerationResult | undefined {
+  return collectCurrentResults(job).get(page);
+}
+
+export function findPageVersionResult(
+  job: JobRecord,
+  page: number,
+  version: number,
+): GenerationResult | undefined {
+  return job.runs
+    .flatMap((run) => run.results)
+    .find((result) => result.page === page && result.version === version && result.status === "success");
+}
+
+function readSavedResponse(jobDir: string, result: GenerationResult): unknown {
+  try {
+    const saved = JSON.parse(fs.readFileSync(path.join(jobDir, result.responseJsonFile), "utf8")) as {
+      geminiResponse?: unknown;
+    };
+    return saved.geminiResponse ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 対話的な修正を1つのプロンプトにまとめた文面。プロンプトファイルとして保存し、
+ * 対話に対応しないプロバイダーや再試行ではこれを単発のプロンプトとして使う。
+ */
+function describeEditHistory(rootPrompt: string, fixPrompts: string[]): string {
+  return [
+    rootPrompt,
+    "",
+    "これまでの修正指示（古い順）:",
+    ...fixPrompts.map((fixPrompt, index) => `${index + 1}. ${fixPrompt}`),
+    "",
+    "重要: 上記修正指示に関係しない部分は一切変更しないこと。",
+  ].join("\n");
+}
+
+/**
+ * 指定した版を起点に editedFromVersion をたどり、最初の生成から現在の画像までの修正履歴を組み立てる。
+ * 履歴が長い場合は最初の生成と直近の修正だけを会話に残す（prompt には全ての修正指示を残す）。
+ */
+export function buildEditConversation(params: {
+  job: JobRecord;
+  page: number;
+  version: number;
+  fixPrompt: string;
+}): { conversation: ImageEditConversation; prompt: string } | null {
+  const { job, page, version, fixPrompt } = params;
+  const { jobDir } = resolveJobImagePaths(job);
+  const chain: GenerationResult[] = [];
+  const visited = new Set<number>();
+  let cursor = findPageVersionResult(job, page, version);
+  while (cursor && !visited.has(cursor.version)) {
+    visited.add(cursor.version);
+    chain.unshift(cursor);
+    cursor =
+      cursor.editedFromVersion === undefined ? undefined : findPageVersionResult(job, page, cursor.editedFromVersion);
+  }
+
+  const [root, ...edits] = chain;
+  const current = chain[chain.length - 1];
+  const rootPromptPath = root ? path.join(jobDir, root.promptFile) : "";
+  if (!root || !current.outputImageFile || !fs.existsSync(rootPromptPath)) {
+    return null;
+  }
+
+  const rootPrompt = fs.readFileSync(rootPromptPath, "utf8");
+  return {
+    conversation: {
+      rootPrompt,
+      rootResponseJson: readSavedResponse(jobDir, root),
+      turns: edits.slice(-MAX_CONVERSATION_TURNS).map((result) => ({
+        instruction: buildConversationalFixPrompt(result.fixPrompt ?? ""),
+        responseJson: readSavedResponse(jobDir, result),
+      })),
+      instruction: buildConversationalFixPrompt(fixPrompt),
+      currentImagePath: path.join(jobDir, current.outputImageFile),
+    },
+    prompt: describeEditHistory(rootPrompt, [...edits.map((result) => result.fixPrompt ?? ""), fixPrompt]),
+  };
+}
+
+/**
+ * 指定ページのうち、実効プロンプトか入力画像が「資料に使われている版」（採用版があればそれ、
+ * なければ最新の成功結果）の生成時から変わったページを返す。成功結果のないページは常に対象。
+ */
+export function detectChangedPages(params: {
+  job: JobRecord;
+  pages: number[];
+  designPrompt: string;
+}): number[] {
+  const { job, pages, designPrompt } = params;
+  const currentResults = collectCurrentResults(job);
+
+  return pages.filter((page) => {
+    const slide = job.slides.find((row) => row.page === page);
+    const previousHash = currentResults.get(page)?.inputHash;
+    if (!slide || !previousHash) {
+      return true;
+    }
+    return computePageInputHash({ job, slide, designPrompt }) !== previousHash;
+  });
+}
+
+export function withImageUrl<T extends Pick<GenerationResult, "status" | "outputImageFile">>(
+  jobId: string,
+  result: T,
+): T & { imageUrl: string | null } {
+  return {
+    ...result,
+    imageUrl:
+      result.status === "success"
+        ? `/api/jobs/${jobId}/asset?file=${encodeURIComponent(result.outputImageFile)}`
+        : null,
+  };
+}
+
+/**
+ * 1ページ分の生成（プロンプト保存 → プロバイダー呼び出し → ロゴ固定 → 画像/レスポンス保存）を行う。
+ * 失敗しても例外は投げず、status: "error"（中止時は "cancelled"）の結果として返す。
+ */
+export async function generatePageImage(params: {
+  provider: ImageProvider;
+  apiKey: string;
+  model: string;
+  imageSize: ImageSize;
+  aspectRatio: string;
+  reuseIfUnchanged?: boolean;
+  jobDir: string;
+  fileStem: string;
+  outputDir: string;
+  page: number;
+  version: number;
+  prompt: string;
+  sourceSlidePath: string;
+  logoImagePaths: string[];
+  referenceImagePaths: string[];
+  conversation?: ImageEditConversation;
+  maskComposite?: { baseImagePath: string; rects: MaskRect[] };
+  brandKit?: BrandKit | null;
+  fallbackErrorMessage: string;
+  signal?: AbortSignal;
+  onStage?: (stage: Exclude<GenerationPageStage, "saved" | "error" | "cancelled">) => void;
+}): Promise<GenerationResult> {
+  const {
+    provider,
+    apiKey,
+    model,
+    imageSize,
+    aspectRatio,
+    reuseIfUnchanged,
+    jobDir,
+    fileStem,
+    outputDir,
+    page,
+    version,
+    prompt,
+    sourceSlidePath,
+    logoImagePaths,
+    referenceImagePaths,
+    conversation,
+    maskComposite,
+    brandKit,
+    fallbackErrorMessage,
+    signal,
+    onStage,
+  } = params;
+
+  const promptFile = path.join("prompts", `${fileStem}.txt`).replaceAll("\\", "/");
+  const responseJsonFile = path.join("responses", `${fileStem}.json`).replaceAll("\\", "/");
+  fs.writeFileSync(path.join(jobDir, promptFile), prompt, "utf8");
+
+  let geminiResponse: unknown = null;
+  let attempts: ImageGenerationAttempt[] = [];
+  let feedback: GenerationFeedback | undefined;
+  // 課金された分。ロゴ固定などで後から失敗しても、失敗結果に残して集計に含める。
+  let usage: GenerationUsage | undefined;
+  const toUsage = (billed: ImageGenerationUsage | undefined, batch: boolean | undefined) =>
+    billed
+      ? {
+          ...estimateUsageCost(model, billed, getModelPrices(), batch ? BATCH_PRICE_RATE : 1),
+          recordedAt: new Date().toISOString(),
+        }
+      : undefined;
+  try {
+    onStage?.("started");
+    const generated = await provider.generate({
+      apiKey,
+      prompt,
+      sourceImagePath: sourceSlidePath,
+      logoImagePaths,
+      referenceImagePaths,
+      conversation,
+      options: {
+        model,
+        aspectRatio,
+        imageSize,
+        reuseIfUnchanged,
+        signal,
+      },
+    });
+    geminiResponse = generated.responseJson;
+    attempts = generated.attempts;
+    feedback = generated.feedback;
+    usage = toUsage(generated.usage, generated.batch);
+    onStage?.("responded");
+
+    let outputBytes = generated.imageBytes;
+    let ext = imageExtensionFromMime(generated.mimeType);
+    let logoLock: LogoLockInfo = {
+      applied: false,
+      logoCount: 0,
+      detections: [],
+      verificationScores: [],
+      verified: true,
+    };
+
+    if (logoImagePaths.length > 0) {
+      const lockResult = await applyLogoLock({
+        sourceSlidePath,
+        generatedImageBytes: generated.imageBytes,
+        logoReferencePaths: logoImagePaths,
+      });
+      if (!lockResult.ok) {
+        throw new Error(lockResult.error);
+      }
+      outputBytes = lockResult.imageBytes;
+      ext = "png";
+      logoLock = lockResult.metadata;
+      onStage?.("logo-locked");
+    }
+
+    if (maskComposite) {
+      outputBytes = await compositeMaskedRegions({
+        baseImagePath: maskComposite.baseImagePath,
+        generatedImageBytes: outputBytes,
+        rects: maskComposite.rects,
+      });
+      ext = "png";
+    }
+
+    // 配色の検査は確認用の情報なので、失敗しても生成結果は保存する。
+    const brandCheck = brandKit
+      ? await checkBrandPalette(outputBytes, brandKit).catch((error) => {
+          console.warn(`[brand-check] page=${page} v${version} could not check the palette`, error);
+          return undefined;
+        })
+      : undefined;
+
+    const outputImageFile = path.join(outputDir, `${fileStem}.${ext}`).replaceAll("\\", "/");
+    fs.mkdirSync(path.dirname(path.join(jobDir, outputImageFile)), { recursive: true });
+    fs.writeFileSync(path.join(jobDir, outputImageFile), outputBytes);
+    fs.writeFileSync(
+      path.join(jobDir, responseJsonFile),
+      JSON.stringify(
+        {
+          provider: provider.id,
+          cacheKey: generated.cacheKey,
+          cached: generated.cached ?? false,
+          batch: generated.batch || undefined,
+          usage,
+          geminiResponse,
+          attempts,
+          logoLock,
+        },
+        null,
+        2,
+      ),
+      "utf8",
+    );
+
+    return {
+      page,
+      version,
+      promptFile,
+      outputImageFile,
+      responseJsonFile,
+      status: "success",
+      logoLock,
+      cacheKey: generated.cacheKey,
+      cached: generated.cached || undefined,
+      usage,
+      feedback,
+      brandCheck,
+    };
+  } catch (error) {
+    if (signal?.aborted) {
+      // 応答を受け取ったあとに中止された場合も、課金された分は集計に残す。
+      if (error instanceof ImageProviderError) {
+        usage = toUsage(error.usage, error.batch);
+      }
+      return {
+        page,
+        version,
+        promptFile,
+        outputImageFile: "",
+        responseJsonFile: "",
+        status: "cancelled",
+        usage,
+        error: CANCELLED_MESSAGE,
+      };
+    }
+    const message = error instanceof Error ? error.message : fallbackErrorMessage;
+    if (error instanceof ImageProviderError) {
+      attempts = error.attempts;
+      feedback = error.feedback;
+      usage = toUsage(error.usage, error.batch);
+    }
+    fs.writeFileSync(
+      path.join(jobDir, responseJsonFile),
+      JSON.stringify({ provider: provider.id, geminiResponse, attempts, feedback, usage, error: message }, null, 2),
+      "utf8",
+    );
+    return {
+      page,
+      version,
+      promptFile,
+      outputImageFile: "",
+      responseJsonFile,
+      status: "error",
+      logoLock: fallbackLogoLockInfo(message),
+      usage,
+      feedback,
+      error: message,
+    };
+  }
+}
@@ -0,0 +1,116 @@
+import type { GenerationFeedback, ImageSize } from "@/lib/types";
+
+export const IMAGE_SIZES = ["1K", "2K", "4K"] as const satisfies readonly ImageSize[];
+export const DEFAULT_IMAGE_SIZE: ImageSize = "2K";
+
+export type ImageGenerationAttempt = {
+  attempt: number;
+  startedAt: string;
+  durationMs: number;
+  ok: boolean;
+  status?: number;
+  retryable?: boolean;
+  error?: string;
+  waitMs?: number;
+  queuedMs?: number;
+  // 応答に課金情報があった試行のトークン数。画像なし・ブロックの応答も課金される。
+  usage?: ImageGenerationUsage;
+};
+
+export type ImageGenerationOptions = {
+  model: string;
+  aspectRatio: string;
+  imageSize: ImageSize;
+  reuseIfUnchanged?: boolean;
+  signal?: AbortSignal;
+};
+
+/**
+ * 生成済み画像からの対話的な修正。最初の生成（rootPrompt と元スライド）から現在の画像までの
+ * やり取りを履歴として渡し、最後に現在の画像と新しい修正指示を送る。
+ */
+export type ImageEditConversation = {
+  rootPrompt: string;
+  rootResponseJson: unknown;
+  turns: Array<{ instruction: string; responseJson: unknown }>;
+  instruction: string;
+  currentImagePath: string;
+};
+
+export type ImageGenerationRequest = {
+  apiKey: string;
+  prompt: string;
+  sourceImagePath: string;
+  logoImagePaths: string[];
+  referenceImagePaths: string[];
+  // 対話に対応しないプロバイダーは conversation を無視し、prompt（履歴をまとめた文面）で生成してよい。
+  conversation?: ImageEditConversation;
+  options: ImageGenerationOptions;
+};
+
+export type ImageGenerationUsage = {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  imageCount: number;
+};
+
+export type ImageGenerationOutput = {
+  responseJson: unknown;
+  imageBytes: Buffer;
+  mimeType: string;
+  textParts: string[];
+  attempts: ImageGenerationAttempt[];
+  cacheKey?: string;
+  cached?: boolean;
+  batch?: boolean;
+  usage?: ImageGenerationUsage;
+  feedback?: GenerationFeedback;
+};
+
+/**
+ * 画像生成バックエンドの共通インターフェース。
+ * 元スライド画像・ロゴ・参考画像とプロンプトを受け取り、生成画像1枚を返す。
+ */
+export type ImageProvider = {
+  id: string;
+  label: string;
+  defaultModel: string;
+  models: string[];
+  // モデルごとに指定できる画像サイズ。載っていないモデルは全サイズに対応する。
+  modelImageSizes?: Record<string, ImageSize[]>;
+  requiresApiKey: boolean;
+  generate: (request: ImageGenerationRequest) => Promise<ImageGenerationOutput>;
+};
+
+export function listModelImageSizes(provider: Pick<ImageProvider, "modelImageSizes">, model: string): ImageSize[] {
+  return provider.modelImageSizes?.[model] ?? [...IMAGE_SIZES];
+}
+
+/**
+ * モデルが対応していないサイズは、対応サイズの先頭に置き換える。実行記録には実際に生成されるサイズを残す。
+ */
+export function resolveImageSize(
+  provider: Pick<ImageProvider, "modelImageSizes">,
+  model: string,
+  requested: ImageSize = DEFAULT_IMAGE_SIZE,
+): ImageSize {
+  const sizes = listModelImageSizes(provider, model);
+  return sizes.includes(requested) ? requested : sizes[0];
+}
+
+/**
+ * プロバイダー呼び出しの失敗。最終失敗までの試行記録を attempts に、応答があればその補足情報を feedback に、
+ * 失敗でも課金された分があれば usage に載せる。
+ */
+export class ImageProviderError extends Error {
+  attempts: ImageGenerationAttempt[] = [];
+  feedback?: GenerationFeedback;
+  usage?: ImageGenerationUsage;
+  batch?: boolean;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageProviderError";
+  }
+}
@@ -0,0 +1,61 @@
+import { geminiImageProvider } from "@/lib/gemini";
+import { listModelImageSizes } from "@/lib/image-provider";
+import type { ImageProvider } from "@/lib/image-provider";
+import { mockImageProvider } from "@/lib/mock-image-provider";
+import { getApiKey, getDefaultImageProviderSetting } from "@/lib/settings";
+import type { ImageSize } from "@/lib/types";
+
+export const DEFAULT_IMAGE_PROVIDER_ID = "gemini";
+// 起動時にプロバイダーを固定したいとき（デモ・オフライン開発）に使う環境変数。設定画面の既定値より優先する。
+export const IMAGE_PROVIDER_ENV = "IMAGE_PROVIDER";
+
+// 新しいバックエンドはここに登録すると、ジョブごとに選択できるようになる。
+const IMAGE_PROVIDERS: ImageProvider[] = [geminiImageProvider, mockImageProvider];
+
+export function listImageProviderOptions(): Array<
+  Pick<ImageProvider, "id" | "label" | "defaultModel" | "models"> & { modelImageSizes: Record<string, ImageSize[]> }
+> {
+  return IMAGE_PROVIDERS.map((provider) => ({
+    id: provider.id,
+    label: provider.label,
+    defaultModel: provider.defaultModel,
+    models: provider.models,
+    modelImageSizes: Object.fromEntries(provider.models.map((model) => [model, listModelImageSizes(provider, model)])),
+  }));
+}
+
+export function isImageProviderId(id: string): boolean {
+  return IMAGE_PROVIDERS.some((provider) => provider.id === id);
+}
+
+export function getImageProviderEnvOverride(): string | null {
+  const fromEnv = process.env[IMAGE_PROVIDER_ENV]?.trim();
+  return fromEnv && isImageProviderId(fromEnv) ? fromEnv : null;
+}
+
+/**
+ * プロバイダー未指定のジョブが使うプロバイダー。環境変数 > 設定画面の既定値 > Gemini の順に決める。
+ */
+export function getDefaultImageProviderId(): string {
+  const fromSettings = getDefaultImageProviderSetting();
+  return (
+    getImageProviderEnvOverride() ??
+    (fromSettings && isImageProviderId(fromSettings) ? fromSettings : DEFAULT_IMAGE_PROVIDER_ID)
+  );
+}
+
+export function getImageProvider(id?: string): ImageProvider {
+  const providerId = id || getDefaultImageProviderId();
+  const provider = IMAGE_PROVIDERS.find((row) => row.id === providerId);
+  if (!provider) {
+    throw new Error(`画像生成プロバイダー「${providerId}」は利用できません。`);
+  }
+  return provider;
+}
+
+/**
+ * API キー不要のプロバイダー（モックなど）は、キーが未設定でも生成を受け付ける。
+ */
+export function hasProviderApiKey(providerId?: string): boolean {
+  return !getImageProvider(providerId).requiresApiKey || Boolean(getApiKey());
+}
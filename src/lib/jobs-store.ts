@@ -1,8 +1,15 @@
 import fs from "node:fs";
 import path from "node:path";
 import crypto from "node:crypto";
-import { ensureDir, getJobDir, JOBS_DIR } from "@/lib/paths";
-import type { GenerationRun, JobRecord, ManualMemoExclusion } from "@/lib/types";
+import { ensureDir, getJobDir, JOBS_DIR, writeJsonAtomic } from "@/lib/paths";
+import type {
+  GenerationBatch,
+  GenerationResult,
+  GenerationRun,
+  JobRecord,
+  ManualMemoExclusion,
+  PageRole,
+} from "@/lib/types";
 
 export function initJobStorage(jobId: string): {
   jobDir: string;
@@ -30,9 +37,7 @@ export function getJobJsonPath(jobId: string): string {
 }
 
 export function saveJob(job: JobRecord): void {
-  const jsonPath = getJobJsonPath(job.jobId);
-  ensureDir(path.dirname(jsonPath));
-  fs.writeFileSync(jsonPath, JSON.stringify(job, null, 2), "utf8");
+  writeJsonAtomic(getJobJsonPath(job.jobId), job);
 }
 
 export function loadJob(jobId: string): JobRecord {
@@ -58,6 +63,32 @@ export function appendRun(jobId: string, run: GenerationRun): JobRecord {
   return job;
 }
 
+export function saveRunResults(jobId: string, runId: string, results: GenerationResult[]): JobRecord {
+  const job = loadJob(jobId);
+  const run = job.runs.find((row) => row.runId === runId);
+  if (!run) {
+    throw new Error("生成履歴が見つかりません。");
+  }
+  run.results = results;
+  saveJob(job);
+  return job;
+}
+
+export function updateRunStatus(
+  jobId: string,
+  runId: string,
+  status: NonNullable<GenerationRun["status"]>,
+): JobRecord {
+  const job = loadJob(jobId);
+  const run = job.runs.find((row) => row.runId === runId);
+  if (!run) {
+    throw new Error("生成履歴が見つかりません。");
+  }
+  run.status = status;
+  saveJob(job);
+  return job;
+}
+
 export function nextVersionForPage(job: JobRecord, page: number): number {
   const versions = job.runs.flatMap((run) =>
     run.results.filter((result) => result.page === page).map((result) => result.version),
@@ -65,6 +96,110 @@ export function nextVersionForPage(job: JobRecord, page: number): number {
   return versions.length ? Math.max(...versions) + 1 : 1;
 }
 
+export function setJobImageProvider(jobId: string, providerId: string): JobRecord {
+  const job = loadJob(jobId);
+  job.imageProvider = providerId;
+  saveJob(job);
+  return job;
+}
+
+/**
+ * 複数ページの役割・個別デザインプロンプトをまとめて変更する。undefined の項目は変えず、null は設定を外す。
+ */
+export function updateSlideSettings(
+  jobId: string,
+  pages: number[],
+  patch: { role?: PageRole | null; designPromptOverride?: string | null },
+): JobRecord {
+  const job = loadJob(jobId);
+  const targets = new Set(pages);
+  const missing = pages.filter((page) => !job.slides.some((slide) => slide.page === page));
+  if (missing.length > 0) {
+    throw new Error(`存在しないページです: ${missing.join(", ")}`);
+  }
+
+  job.slides = job.slides.map((slide) => {
+    if (!targets.has(slide.page)) {
+      return slide;
+    }
+    const next = { ...slide };
+    if (patch.role !== undefined) {
+      next.role = patch.role ?? undefined;
+    }
+    if (patch.designPromptOverride !== undefined) {
+      next.designPromptOverride = patch.designPromptOverride?.trim() || undefined;
+    }
+    return next;
+  });
+  saveJob(job);
+  return job;
+}
+
+export function setJobBrandKit(jobId: string, brandKitId: string | null): JobRecord {
+  const job = loadJob(jobId);
+  job.brandKitId = brandKitId ?? undefined;
+  saveJob(job);
+  return job;
+}
+
+/**
+ * 資料に採用する版をページ単位で固定する。同じページを生成し直すと固定は解除される。
+ */
+export function setChosenVersion(jobId: string, page: number, version: number | null): JobRecord {
+  const job = loadJob(jobId);
+  const chosenVersions = { ...(job.chosenVersions ?? {}) };
+  if (version === null) {
+    delete chosenVersions[String(page)];
+  } else {
+    const exists = job.runs.some((run) =>
+      run.results.some(
+        (result) => result.page === page && result.version === version && result.status === "success",
+      ),
+    );
+    if (!exists) {
+      throw new Error(`ページ ${page} の v${version} は生成済みの画像がありません。`);
+    }
+    chosenVersions[String(page)] = version;
+  }
+  job.chosenVersions = chosenVersions;
+  saveJob(job);
+  return job;
+}
+
+export function clearChosenVersions(jobId: string, pages: number[]): JobRecord {
+  const job = loadJob(jobId);
+  const chosenVersions = { ...(job.chosenVersions ?? {}) };
+  pages.forEach((page) => delete chosenVersions[String(page)]);
+  job.chosenVersions = chosenVersions;
+  saveJob(job);
+  return job;
+}
+
+/**
+ * Batch API に投入したバッチをジョブに記録する。プロセスが再起動してもバッチ名から結果を取りに行ける。
+ */
+export function appendJobBatch(jobId: string, batch: GenerationBatch): JobRecord {
+  const job = loadJob(jobId);
+  job.batches = [...(job.batches ?? []), batch];
+  saveJob(job);
+  return job;
+}
+
+export function updateJobBatch(
+  jobId: string,
+  batchName: string,
+  patch: Partial<Omit<GenerationBatch, "batchName">>,
+): JobRecord {
+  const job = loadJob(jobId);
+  const batch = job.batches?.find((row) => row.batchName === batchName);
+  if (!batch) {
+    throw new Error("バッチの記録が見つかりません。");
+  }
+  Object.assign(batch, patch);
+  saveJob(job);
+  return job;
+}
+
 export function updateMemoDecisions(jobId: string, decisions: Record<string, boolean>): JobRecord {
   const job = loadJob(jobId);
   job.memoDecisions = {
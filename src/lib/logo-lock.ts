@@ -312,18 +312,46 @@ async function renderResizedLogo(
   return new Uint8Array(data);
 }
 
-function verifyDetectionPatch(params: {
-  finalImage: RgbaImage;
+type TargetRect = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * 元スライド上の検出位置を生成画像上の配置先へ写す。
+ * 生成画像の比率が元スライドとずれてもロゴが潰れないよう、大きさは縦横同率で拡縮し、
+ * 位置は中心点を相対座標で合わせたうえで画像内に収める。
+ */
+function mapDetectionToGenerated(params: {
   detection: LogoLockDetection;
-  renderedLogo: Uint8Array;
   scaleX: number;
   scaleY: number;
+  generatedWidth: number;
+  generatedHeight: number;
+}): TargetRect {
+  const { detection, scaleX, scaleY, generatedWidth, generatedHeight } = params;
+  const scale = Math.min(scaleX, scaleY);
+  const width = Math.min(generatedWidth, Math.max(1, Math.round(detection.width * scale)));
+  const height = Math.min(generatedHeight, Math.max(1, Math.round(detection.height * scale)));
+  const centerX = (detection.x + detection.width / 2) * scaleX;
+  const centerY = (detection.y + detection.height / 2) * scaleY;
+  return {
+    left: Math.min(generatedWidth - width, Math.max(0, Math.round(centerX - width / 2))),
+    top: Math.min(generatedHeight - height, Math.max(0, Math.round(centerY - height / 2))),
+    width,
+    height,
+  };
+}
+
+function verifyDetectionPatch(params: {
+  finalImage: RgbaImage;
+  target: TargetRect;
+  renderedLogo: Uint8Array;
 }): number {
-  const { finalImage, detection, renderedLogo, scaleX, scaleY } = params;
-  const targetWidth = Math.max(1, Math.round(detection.width * scaleX));
-  const targetHeight = Math.max(1, Math.round(detection.height * scaleY));
-  const targetLeft = Math.max(0, Math.round(detection.x * scaleX));
-  const targetTop = Math.max(0, Math.round(detection.y * scaleY));
+  const { finalImage, target, renderedLogo } = params;
+  const { width: targetWidth, height: targetHeight, left: targetLeft, top: targetTop } = target;
 
   let sum = 0;
   let count = 0;
@@ -413,24 +441,24 @@ export async function applyLogoLock(params: {
   const scaleX = generatedWidth / sourceImage.width;
   const scaleY = generatedHeight / sourceImage.height;
 
-  const composites = await Promise.all(
-    detections.map(async (detection) => {
-      const targetWidth = Math.max(1, Math.round(detection.width * scaleX));
-      const targetHeight = Math.max(1, Math.round(detection.height * scaleY));
-      const targetLeft = Math.max(0, Math.round(detection.x * scaleX));
-      const targetTop = Math.max(0, Math.round(detection.y * scaleY));
+  const targets = detections.map((detection) =>
+    mapDetectionToGenerated({ detection, scaleX, scaleY, generatedWidth, generatedHeight }),
+  );
 
+  const composites = await Promise.all(
+    detections.map(async (detection, index) => {
+      const target = targets[index];
       const input = await sharp(existingLogos.find((logoPath) => normalizeDetectionPath(logoPath) === detection.logoPath)!)
         .ensureAlpha()
         .trim()
-        .resize(targetWidth, targetHeight, { fit: "fill" })
+        .resize(target.width, target.height, { fit: "fill" })
         .png()
         .toBuffer();
 
       return {
         input,
-        left: targetLeft,
-        top: targetTop,
+        left: target.left,
+        top: target.top,
       };
     }),
   );
@@ -439,7 +467,7 @@ export async function applyLogoLock(params: {
   const finalImage = await readRgbaImage(lockedImageBytes);
 
   const verificationScores: number[] = [];
-  for (const detection of detections) {
+  for (const [index, detection] of detections.entries()) {
     const sourceLogoPath = existingLogos.find(
       (logoPath) => normalizeDetectionPath(logoPath) === detection.logoPath,
     );
@@ -447,15 +475,12 @@ export async function applyLogoLock(params: {
       continue;
     }
 
-    const targetWidth = Math.max(1, Math.round(detection.width * scaleX));
-    const targetHeight = Math.max(1, Math.round(detection.height * scaleY));
-    const renderedLogo = await renderResizedLogo(sourceLogoPath, targetWidth, targetHeight);
+    const target = targets[index];
+    const renderedLogo = await renderResizedLogo(sourceLogoPath, target.width, target.height);
     const score = verifyDetectionPatch({
       finalImage,
-      detection,
+      target,
       renderedLogo,
-      scaleX,
-      scaleY,
     });
     verificationScores.push(score);
   }
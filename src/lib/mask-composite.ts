@@ -0,0 +1,44 @@
+import sharp from "sharp";
+import type { MaskRect } from "@/lib/types";
+
+function toPixelRect(rect: MaskRect, width: number, height: number) {
+  const left = Math.max(0, Math.min(width - 1, Math.round(rect.x * width)));
+  const top = Math.max(0, Math.min(height - 1, Math.round(rect.y * height)));
+  return {
+    left,
+    top,
+    width: Math.max(1, Math.min(width - left, Math.round(rect.width * width))),
+    height: Math.max(1, Math.min(height - top, Math.round(rect.height * height))),
+  };
+}
+
+/**
+ * 新しい画像のうち指定範囲（0〜1 の比率で表した矩形）だけを前の版の画像に貼り込む。
+ * 範囲外は前の版のピクセルがそのまま残る。新しい画像は前の版のサイズに合わせてから切り出す。
+ */
+export async function compositeMaskedRegions(params: {
+  baseImagePath: string;
+  generatedImageBytes: Buffer;
+  rects: MaskRect[];
+}): Promise<Buffer> {
+  const { baseImagePath, generatedImageBytes, rects } = params;
+  const base = sharp(baseImagePath);
+  const { width = 0, height = 0 } = await base.metadata();
+  if (!width || !height) {
+    throw new Error("前の版の画像サイズを取得できませんでした。");
+  }
+
+  const resized = await sharp(generatedImageBytes).resize(width, height, { fit: "fill" }).png().toBuffer();
+  const patches = await Promise.all(
+    rects.map(async (rect) => {
+      const region = toPixelRect(rect, width, height);
+      return {
+        input: await sharp(resized).extract(region).png().toBuffer(),
+        left: region.left,
+        top: region.top,
+      };
+    }),
+  );
+
+  return base.composite(patches).png().toBuffer();
+}
@@ -0,0 +1,123 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import sharp from "sharp";
+import type { ImageProvider, ImageGenerationRequest } from "@/lib/image-provider";
+import type { ImageSize } from "@/lib/types";
+import { approximateUsage } from "@/lib/usage";
+
+export const MOCK_IMAGE_MODEL = "mock-image";
+
+const LONG_EDGE_PX: Record<ImageSize, number> = {
+  "1K": 1024,
+  "2K": 2048,
+  "4K": 4096,
+};
+
+function outputSize(aspectRatio: string, imageSize: ImageSize): { width: number; height: number } {
+  const [ratioWidth, ratioHeight] = aspectRatio.split(":").map(Number);
+  const ratio = ratioWidth > 0 && ratioHeight > 0 ? ratioWidth / ratioHeight : 16 / 9;
+  const longEdge = LONG_EDGE_PX[imageSize];
+  return ratio >= 1
+    ? { width: longEdge, height: Math.round(longEdge / ratio) }
+    : { width: Math.round(longEdge * ratio), height: longEdge };
+}
+
+function buildLabelSvg(width: number, height: number, label: string): Buffer {
+  const fontSize = Math.max(16, Math.round(height / 28));
+  const bandHeight = Math.round(fontSize * 2);
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      `<rect x="0" y="${height - bandHeight}" width="${width}" height="${bandHeight}" fill="rgba(0,0,0,0.6)"/>` +
+      `<text x="${fontSize}" y="${height - Math.round(bandHeight / 3)}" font-family="sans-serif" font-size="${fontSize}" fill="#ffffff">${label}</text>` +
+      `</svg>`,
+  );
+}
+
+/**
+ * 元スライドをリクエスト内容のハッシュで色相回転し、ハッシュ入りの帯を重ねた画像を返す。
+ * 同じ入力からは常に同じ画像になる。API キーもネットワークも使わない。
+ */
+async function generateMockImage(request: ImageGenerationRequest) {
+  const { prompt, logoImagePaths, referenceImagePaths, conversation, options } = request;
+  // 対話的な修正では、元スライドではなく現在の画像を加工する。
+  const sourceImagePath = conversation?.currentImagePath ?? request.sourceImagePath;
+  if (options.signal?.aborted) {
+    throw options.signal.reason;
+  }
+
+  const sourceBytes = fs.readFileSync(sourceImagePath);
+  const hash = crypto
+    .createHash("sha256")
+    .update(options.model)
+    .update("\n")
+    .update(`${options.aspectRatio} ${options.imageSize}`)
+    .update("\n")
+    .update(prompt)
+    .update(sourceBytes)
+    .digest("hex");
+  const { width, height } = outputSize(options.aspectRatio, options.imageSize);
+  const label = `MOCK ${hash.slice(0, 12)} / ${options.aspectRatio} ${options.imageSize}`;
+
+  const imageBytes = await sharp(sourceBytes)
+    .resize(width, height, { fit: "cover" })
+    .modulate({ hue: parseInt(hash.slice(0, 4), 16) % 360, saturation: 1.2 })
+    .composite([{ input: buildLabelSvg(width, height, label), top: 0, left: 0 }])
+    .png()
+    .toBuffer();
+
+  const inputImageCount = 1 + logoImagePaths.length + referenceImagePaths.length;
+  // 応答 JSON をそれらしく見せるための概算。
+  const usage = approximateUsage({ prompt, inputImageCount, imageSize: options.imageSize });
+  const text = `モック画像を生成しました。（prompt hash: ${hash.slice(0, 12)}）`;
+
+  return {
+    responseJson: {
+      candidates: [
+        {
+          content: {
+            role: "model",
+            parts: [{ text }, { inlineData: { mimeType: "image/png", data: imageBytes.toString("base64") } }],
+          },
+          finishReason: "STOP",
+          index: 0,
+        },
+      ],
+      usageMetadata: {
+        promptTokenCount: usage.promptTokens,
+        candidatesTokenCount: usage.outputTokens,
+        totalTokenCount: usage.totalTokens,
+      },
+      modelVersion: options.model,
+      responseId: hash.slice(0, 24),
+    },
+    imageBytes,
+    mimeType: "image/png",
+    textParts: [text],
+    usage,
+    feedback: { textParts: [text], finishReason: "STOP", blockedCategories: [] },
+  };
+}
+
+export const mockImageProvider: ImageProvider = {
+  id: "mock",
+  label: "モック（オフライン）",
+  defaultModel: MOCK_IMAGE_MODEL,
+  models: [MOCK_IMAGE_MODEL],
+  requiresApiKey: false,
+  generate: async (request) => {
+    const startedAt = new Date();
+    const output = await generateMockImage(request);
+    return {
+      ...output,
+      attempts: [
+        {
+          attempt: 1,
+          startedAt: startedAt.toISOString(),
+          durationMs: Date.now() - startedAt.getTime(),
+          ok: true,
+          status: 200,
+        },
+      ],
+    };
+  },
+};
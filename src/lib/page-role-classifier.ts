@@ -0,0 +1,184 @@
+import fs from "node:fs";
+import path from "node:path";
+import { loadJob, saveJob } from "@/lib/jobs-store";
+import { normalizeText } from "@/lib/memo-detector";
+import { getJobDir } from "@/lib/paths";
+import type { ExtractedPptxPayload, ExtractedSlide, JobRecord, PageRole, PageRoleSuggestion } from "@/lib/types";
+
+const AGENDA_PATTERNS: RegExp[] = [/目次/, /アジェンダ/, /本日の(流れ|内容)/, /^agenda$/i, /^contents$/i];
+const SECTION_PATTERNS: RegExp[] = [/^第?\s*[0-9０-９一二三四五六七八九十]+\s*[章部]/, /^(chapter|section|part)\s*\d*/i, /^0?\d[.．]\s*\S/];
+const CLOSING_PATTERNS: RegExp[] = [/ありがとうございました/, /ご清聴/, /お問い?合わ?せ/, /^まとめ/, /thank\s*you/i, /contact/i];
+
+// 数値・記号だけの短いテキスト（表のセルに多い）。
+const NUMERIC_PATTERN = /^[\s0-9０-９.,，．%％+\-−¥￥$円万億千件人年月日/:()（）]+$/;
+// 表とみなす最小のテキスト枠数と、行・列の数。
+const TABLE_MIN_SHAPES = 8;
+const TABLE_MIN_LINES = 3;
+// 行・列をそろって並んでいるとみなすずれ（スライドの幅・高さに対する割合）。
+const ALIGN_TOLERANCE = 0.02;
+
+type ShapeMetrics = {
+  text: string;
+  topRatio: number;
+  centerYRatio: number;
+  leftRatio: number;
+  areaRatio: number;
+};
+
+type SlideMetrics = {
+  shapes: ShapeMetrics[];
+  totalChars: number;
+  textAreaRatio: number;
+  hasGeometry: boolean;
+};
+
+function toMetrics(slide: ExtractedSlide, slideWidth: number, slideHeight: number): SlideMetrics {
+  const hasGeometry = Array.isArray(slide.textShapes) && slideWidth > 0 && slideHeight > 0;
+  const rawShapes = hasGeometry
+    ? (slide.textShapes ?? [])
+    : slide.textBlocks.map((text) => ({ text, left: 0, top: 0, width: 0, height: 0 }));
+
+  const shapes = rawShapes
+    .map((shape) => ({
+      text: normalizeText(shape.text ?? ""),
+      topRatio: hasGeometry ? shape.top / slideHeight : 0,
+      centerYRatio: hasGeometry ? (shape.top + shape.height / 2) / slideHeight : 0.5,
+      leftRatio: hasGeometry ? shape.left / slideWidth : 0,
+      areaRatio: hasGeometry ? (shape.width * shape.height) / (slideWidth * slideHeight) : 0,
+    }))
+    .filter((shape) => shape.text.length > 0);
+
+  return {
+    shapes,
+    totalChars: shapes.reduce((sum, shape) => sum + shape.text.length, 0),
+    textAreaRatio: Math.min(1, shapes.reduce((sum, shape) => sum + shape.areaRatio, 0)),
+    hasGeometry,
+  };
+}
+
+/**
+ * 位置がほぼ同じ値をまとめて数える（表の行・列の数の目安）。
+ */
+function countAlignedLines(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  let lines = 0;
+  let previous = Number.NEGATIVE_INFINITY;
+  for (const value of sorted) {
+    if (value - previous > ALIGN_TOLERANCE) {
+      lines += 1;
+    }
+    previous = value;
+  }
+  return lines;
+}
+
+function suggestion(role: PageRole, confidence: number, reason: string): PageRoleSuggestion {
+  return { role, confidence: Math.round(Math.min(0.95, confidence) * 100) / 100, reason };
+}
+
+/**
+ * 抽出したテキスト枠の位置・量と文言からページの役割を推定する。画像そのものは見ないので、確信度は目安。
+ */
+export function classifyPageRole(params: {
+  slide: ExtractedSlide;
+  slideWidth: number;
+  slideHeight: number;
+  slideCount: number;
+}): PageRoleSuggestion {
+  const { slide, slideWidth, slideHeight, slideCount } = params;
+  const metrics = toMetrics(slide, slideWidth, slideHeight);
+  const { shapes, totalChars, textAreaRatio, hasGeometry } = metrics;
+  const isFirst = slide.page === 1;
+  const isLast = slideCount > 1 && slide.page === slideCount;
+  const heading = [...shapes].sort((a, b) => a.topRatio - b.topRatio)[0]?.text ?? "";
+
+  if (shapes.length === 0) {
+    return suggestion("visual", 0.6, "テキストがなく、図や写真だけのページと見られます。");
+  }
+
+  if (isFirst && shapes.length <= 5 && totalChars <= 200) {
+    return suggestion("cover", 0.9, "先頭ページで、短いテキストが少数だけ置かれています。");
+  }
+
+  const agendaShape = shapes.find((shape) => AGENDA_PATTERNS.some((pattern) => pattern.test(shape.text)));
+  if (agendaShape) {
+    return suggestion("agenda", 0.85, `「${agendaShape.text}」など目次を示す見出しがあります。`);
+  }
+
+  if (shapes.length <= 3 && totalChars <= 80 && !isFirst && !isLast) {
+    const numbered = shapes.some((shape) => SECTION_PATTERNS.some((pattern) => pattern.test(shape.text)));
+    const centered = hasGeometry && shapes.every((shape) => shape.centerYRatio > 0.25 && shape.centerYRatio < 0.75);
+    if (numbered || centered) {
+      return suggestion(
+        "section",
+        numbered && centered ? 0.9 : 0.75,
+        numbered ? `「${heading}」のような章番号付きの短い見出しだけのページです。` : "短い見出しが中央付近にあるだけのページです。",
+      );
+    }
+  }
+
+  if (isLast && (totalChars <= 150 || shapes.some((shape) => CLOSING_PATTERNS.some((pattern) => pattern.test(shape.text))))) {
+    return suggestion("closing", 0.8, "最終ページで、結びの言葉や短いテキストが中心です。");
+  }
+  if (shapes.some((shape) => CLOSING_PATTERNS.some((pattern) => pattern.test(shape.text))) && totalChars <= 150) {
+    return suggestion("closing", 0.6, "結びの言葉（まとめ・お問い合わせなど）があります。");
+  }
+
+  if (hasGeometry && shapes.length >= TABLE_MIN_SHAPES) {
+    const rows = countAlignedLines(shapes.map((shape) => shape.topRatio));
+    const columns = countAlignedLines(shapes.map((shape) => shape.leftRatio));
+    const numericShare = shapes.filter((shape) => NUMERIC_PATTERN.test(shape.text)).length / shapes.length;
+    if (rows >= TABLE_MIN_LINES && columns >= TABLE_MIN_LINES && rows * columns <= shapes.length * 2) {
+      return suggestion(
+        "table",
+        0.6 + numericShare * 0.3,
+        `テキスト枠が${rows}行×${columns}列ほどの格子状に並んでいます${numericShare >= 0.3 ? "（数値が多い）" : ""}。`,
+      );
+    }
+  }
+
+  if (hasGeometry && textAreaRatio < 0.15 && totalChars <= 120) {
+    return suggestion("visual", 0.55, "テキストが占める面積が小さく、残りは図や写真と見られます。");
+  }
+
+  if (totalChars >= 100 || shapes.length >= 3) {
+    return suggestion("content", 0.7, "見出しと複数の本文テキストがある通常のページです。");
+  }
+  return suggestion("content", 0.5, "特徴的な手がかりがないため、本文ページと推定しました。");
+}
+
+export function classifyExtractedSlides(payload: ExtractedPptxPayload): Map<number, PageRoleSuggestion> {
+  return new Map(
+    payload.slides.map((slide) => [
+      slide.page,
+      classifyPageRole({
+        slide,
+        slideWidth: payload.slideWidth,
+        slideHeight: payload.slideHeight,
+        slideCount: payload.slideCount,
+      }),
+    ]),
+  );
+}
+
+/**
+ * 読み込み時の抽出結果（source/extracted.json）から役割の提案を付け直す。提案を導入する前に読み込んだジョブにも使える。
+ * 設定済みの役割は変えない。
+ */
+export function suggestJobPageRoles(jobId: string): JobRecord {
+  const job = loadJob(jobId);
+  const extractedJsonPath = path.join(getJobDir(jobId), "source", "extracted.json");
+  if (!fs.existsSync(extractedJsonPath)) {
+    throw new Error("スライドの抽出結果が見つかりません。資料を読み込み直してください。");
+  }
+
+  const suggestions = classifyExtractedSlides(
+    JSON.parse(fs.readFileSync(extractedJsonPath, "utf8")) as ExtractedPptxPayload,
+  );
+  job.slides = job.slides.map((slide) => ({
+    ...slide,
+    roleSuggestion: suggestions.get(slide.page) ?? slide.roleSuggestion,
+  }));
+  saveJob(job);
+  return job;
+}
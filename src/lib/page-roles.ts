@@ -0,0 +1,47 @@
+import type { PageRole } from "@/lib/types";
+
+/**
+ * 役割ごとの表示名と、指示文に加える扱い方。
+ */
+export const PAGE_ROLES: Record<PageRole, { label: string; prompt: string }> = {
+  cover: {
+    label: "表紙",
+    prompt: "資料の表紙。タイトルを最も大きく目立たせ、サブタイトル・日付・発表者は控えめに添える。本文ページより大胆なビジュアルでよい。",
+  },
+  agenda: {
+    label: "目次",
+    prompt: "目次・アジェンダ。項目の順序と階層がひと目で分かるよう、番号や区切りを揃えて整然と並べる。",
+  },
+  section: {
+    label: "セクション扉",
+    prompt: "章の区切りとなる扉ページ。セクション名を大きく中央寄りに置き、要素は最小限にして余白を広く取る。",
+  },
+  content: {
+    label: "本文",
+    prompt: "通常の本文ページ。見出しと本文の階層をはっきりさせ、要点が読み取りやすい構成にする。",
+  },
+  table: {
+    label: "表・データ",
+    prompt: "表や数値の多いページ。装飾やイラストは控え、行・列・数値の読みやすさを最優先する。数値・項目名は一字一句変えない。",
+  },
+  visual: {
+    label: "図・写真中心",
+    prompt: "図・写真・グラフが主役のページ。ビジュアルを大きく見せ、文字は短い見出しと補足にとどめる。",
+  },
+  closing: {
+    label: "まとめ・結び",
+    prompt: "資料の結び（まとめ・お問い合わせ・謝辞）。伝えたい結論や連絡先を大きく示し、表紙とトーンを揃える。",
+  },
+};
+
+export const PAGE_ROLE_IDS = Object.keys(PAGE_ROLES) as PageRole[];
+
+/**
+ * プロンプトに差し込むページの役割。役割が未設定なら空文字（テンプレートの {{#pageRole}} ごと省かれる）。
+ */
+export function describePageRole(role: PageRole | undefined): string {
+  if (!role || !PAGE_ROLES[role]) {
+    return "";
+  }
+  return `${PAGE_ROLES[role].label}: ${PAGE_ROLES[role].prompt}`;
+}
@@ -4,12 +4,26 @@ import path from "node:path";
 export const PROJECT_ROOT = process.cwd();
 export const DATA_DIR = path.join(PROJECT_ROOT, "data");
 export const JOBS_DIR = path.join(DATA_DIR, "jobs");
+export const CACHE_DIR = path.join(DATA_DIR, "cache");
 export const SETTINGS_FILE = path.join(DATA_DIR, "settings.json");
+export const PROMPT_TEMPLATES_DIR = path.join(DATA_DIR, "prompt-templates");
+export const STYLE_PRESETS_DIR = path.join(DATA_DIR, "style-presets");
+export const BRAND_KITS_DIR = path.join(DATA_DIR, "brand-kits");
 
 export function ensureDir(dir: string): void {
   fs.mkdirSync(dir, { recursive: true });
 }
 
+/**
+ * 一時ファイルへ書き込んでから rename し、書き込み途中の JSON が読まれないようにする。
+ */
+export function writeJsonAtomic(filePath: string, data: unknown): void {
+  ensureDir(path.dirname(filePath));
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), "utf8");
+  fs.renameSync(tempPath, filePath);
+}
+
 export function createJobId(): string {
   const now = new Date();
   const date = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, "0")}${String(now.getDate()).padStart(2, "0")}`;
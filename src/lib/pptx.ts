@@ -2,6 +2,7 @@ import fs from "node:fs";
 import path from "node:path";
 import { spawnSync } from "node:child_process";
 import { looksLikeMemoText, normalizeText } from "@/lib/memo-detector";
+import { classifyPageRole } from "@/lib/page-role-classifier";
 import type { ExtractedPptxPayload, ExtractedSlide, SlideInfo } from "@/lib/types";
 
 function runCommand(command: string, args: string[]): void {
@@ -125,7 +126,7 @@ export function extractSlidesData(params: {
   slidesDir: string;
   extractedJsonPath: string;
   scriptDir: string;
-}): { slideCount: number; slides: SlideInfo[] } {
+}): { slideCount: number; slideWidth: number; slideHeight: number; slides: SlideInfo[] } {
   const { sourcePptPath, slidesDir, extractedJsonPath, scriptDir } = params;
 
   runCommand("powershell", [
@@ -172,8 +173,9 @@ export function extractSlidesData(params: {
         slideWidth,
         slideHeight,
       }),
+      roleSuggestion: classifyPageRole({ slide, slideWidth, slideHeight, slideCount: extracted.slideCount }),
     };
   });
 
-  return { slideCount: extracted.slideCount, slides };
+  return { slideCount: extracted.slideCount, slideWidth, slideHeight, slides };
 }
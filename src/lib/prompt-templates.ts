@@ -0,0 +1,263 @@
+import fs from "node:fs";
+import path from "node:path";
+import { PROMPT_TEMPLATES_DIR, writeJsonAtomic } from "@/lib/paths";
+import { getActivePromptTemplateId } from "@/lib/settings";
+import type { PromptTemplateRecord } from "@/lib/types";
+
+export const DEFAULT_PROMPT_TEMPLATE_ID = "default";
+export const DEFAULT_PROMPT_TEMPLATE_NAME = "標準（組み込み）";
+
+export const PROMPT_TEMPLATE_PLACEHOLDERS = [
+  { name: "designPrompt", description: "全体デザインプロンプト（ページ個別のデザイン指定があればそちら）" },
+  { name: "brandConstraints", description: "ジョブのブランドキットの色・フォント・トーンの規定（なければ空）" },
+  { name: "page", description: "対象ページ番号" },
+  { name: "pageRole", description: "ページの役割とその扱い（役割が未設定なら空）" },
+  { name: "aspectRatio", description: "出力画像の比率（例: 横長16:9）" },
+  { name: "keptText", description: "メモ除外後の本文テキスト（なければ「(本文テキストなし)」）" },
+  { name: "notes", description: "メモ除外後のノート（なければ「(ノートなし)」）" },
+  { name: "fixPrompt", description: "再生成時の追加の修正指示（なければ空）" },
+  { name: "logoCount", description: "添付するロゴ画像の枚数" },
+] as const;
+
+export type PromptTemplatePlaceholder = (typeof PROMPT_TEMPLATE_PLACEHOLDERS)[number]["name"];
+
+export type PromptTemplateValues = Record<PromptTemplatePlaceholder, string | number>;
+
+export type ResolvedPromptTemplate = {
+  templateId: string;
+  version: number;
+  body: string;
+};
+
+// 以前コードに直接書いていた指示と同じ文面。既存ジョブの生成キャッシュや入力ハッシュが変わらないよう、描画結果も同一にしている。
+export const DEFAULT_PROMPT_TEMPLATE_BODY = [
+  "あなたが行うべき作業:",
+  "- 添付された元スライド1ページを読み取り、同じページ数のまま画像を1枚生成する。",
+  "- 出力画像は必ず{{aspectRatio}}（元資料のスライド比率）で作成する。",
+  "- 元資料にロゴ/ブランドマークが含まれる場合、ロゴの形状・色・文字・比率を厳密に保持し、改変・再描画・置換を絶対に行わない。",
+  "{{#logoCount}}",
+  "- 添付されたロゴ画像は唯一の正解とし、ロゴ部分は添付ロゴと完全一致させる。",
+  "{{/logoCount}}",
+  "- 元資料の記載内容・構成・主張・数字は保持する。",
+  "- 修正指示に明記された箇所以外は、レイアウト・文言・装飾・要素配置を絶対に変更しない。",
+  "- 読みやすさ向上のための軽いリライトは許可。意味変更は不可。",
+  "- スピーカーノート/メモ書き/制作指示は出力に含めない。",
+  "- デザイン参考画像が添付されている場合はそのテイストを反映する。",
+  "- もし全体デザインプロンプトと参考画像のテイストが相反する場合は、両方の要素をミックスして調和させる。",
+  "- 不要な多重四角形や過剰な重なり表現は避け、意図がある場合のみ採用する。",
+  "全体デザインプロンプト:",
+  "{{designPrompt}}",
+  "{{#brandConstraints}}",
+  "ブランド規定（必ず守ること）:",
+  "{{brandConstraints}}",
+  "{{/brandConstraints}}",
+  "対象ページ: {{page}}",
+  "{{#pageRole}}",
+  "このページの役割と扱い:",
+  "{{pageRole}}",
+  "{{/pageRole}}",
+  "このページの本文テキスト:",
+  "{{keptText}}",
+  "このページのノート (参考のみ・通常は出力しない):",
+  "{{notes}}",
+  "{{#fixPrompt}}",
+  "",
+  "追加の修正指示:",
+  "{{fixPrompt}}",
+  "",
+  "重要: 上記修正指示に関係しない部分は一切変更しないこと。",
+  "{{/fixPrompt}}",
+].join("\n");
+
+// {{#name}}...{{/name}} は値が空（空文字・0）のとき丸ごと省く。タグ直後の改行はタグと一緒に取り除く。
+const SECTION_PATTERN = /\{\{#(\w+)\}\}\n?([\s\S]*?)\{\{\/\1\}\}\n?/g;
+const PLACEHOLDER_PATTERN = /\{\{(\w+)\}\}/g;
+const TAG_PATTERN = /\{\{([#/]?)(\w+)\}\}/g;
+
+function isFilled(value: string | number | undefined): boolean {
+  if (typeof value === "number") {
+    return value > 0;
+  }
+  return Boolean(value?.trim());
+}
+
+export function renderPromptTemplate(body: string, values: PromptTemplateValues): string {
+  const lookup: Record<string, string | number> = values;
+  return body
+    .replace(SECTION_PATTERN, (_match, name: string, inner: string) => (isFilled(lookup[name]) ? inner : ""))
+    .replace(PLACEHOLDER_PATTERN, (match, name: string) => (name in lookup ? String(lookup[name]) : match))
+    .trimEnd();
+}
+
+/**
+ * 未対応のプレースホルダーや閉じられていないセクションがあればメッセージを、問題なければ null を返す。
+ */
+export function validatePromptTemplate(body: string): string | null {
+  if (!body.trim()) {
+    return "テンプレートが空です。";
+  }
+  const known = new Set<string>(PROMPT_TEMPLATE_PLACEHOLDERS.map((placeholder) => placeholder.name));
+  const opened: string[] = [];
+  for (const [tag, marker, name] of body.matchAll(TAG_PATTERN)) {
+    if (!known.has(name)) {
+      return `未対応のプレースホルダーです: ${tag}`;
+    }
+    if (marker === "#") {
+      opened.push(name);
+    } else if (marker === "/" && opened.pop() !== name) {
+      return `${tag} に対応する {{#${name}}} がありません。`;
+    }
+  }
+  if (opened.length > 0) {
+    return `{{#${opened[opened.length - 1]}}} が閉じられていません。`;
+  }
+  return null;
+}
+
+function getTemplateDir(templateId: string): string {
+  return path.join(PROMPT_TEMPLATES_DIR, path.basename(templateId));
+}
+
+function getTemplateJsonPath(templateId: string): string {
+  return path.join(getTemplateDir(templateId), "template.json");
+}
+
+function getTemplateBodyPath(templateId: string, version: number): string {
+  return path.join(getTemplateDir(templateId), `v${version}.txt`);
+}
+
+function createTemplateId(): string {
+  return `tpl_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function assertValidTemplate(body: string): void {
+  const problem = validatePromptTemplate(body);
+  if (problem) {
+    throw new Error(problem);
+  }
+}
+
+function readTemplateRecord(templateId: string): PromptTemplateRecord | null {
+  const jsonPath = getTemplateJsonPath(templateId);
+  if (!fs.existsSync(jsonPath)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(jsonPath, "utf8")) as PromptTemplateRecord;
+}
+
+function latestVersion(record: PromptTemplateRecord): number {
+  return record.versions.reduce((max, row) => Math.max(max, row.version), 0);
+}
+
+/**
+ * 保存済みのテンプレート（組み込みの標準テンプレートは含まない）。新しく更新したものから並べる。
+ */
+export function listPromptTemplates(): PromptTemplateRecord[] {
+  if (!fs.existsSync(PROMPT_TEMPLATES_DIR)) {
+    return [];
+  }
+  return fs
+    .readdirSync(PROMPT_TEMPLATES_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .flatMap((entry) => {
+      const record = readTemplateRecord(entry.name);
+      return record ? [record] : [];
+    })
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function hasPromptTemplate(templateId: string): boolean {
+  return templateId === DEFAULT_PROMPT_TEMPLATE_ID || readTemplateRecord(templateId) !== null;
+}
+
+/**
+ * テンプレートの指定版（省略時は最新版）の本文。保存した版は書き換えないので、同じ id・版からは常に同じ本文になる。
+ */
+export function loadPromptTemplate(templateId: string, version?: number): ResolvedPromptTemplate {
+  if (templateId === DEFAULT_PROMPT_TEMPLATE_ID) {
+    return { templateId, version: 1, body: DEFAULT_PROMPT_TEMPLATE_BODY };
+  }
+  const record = readTemplateRecord(templateId);
+  if (!record) {
+    throw new Error("プロンプトテンプレートが見つかりません。");
+  }
+  const targetVersion = version ?? latestVersion(record);
+  const bodyPath = getTemplateBodyPath(templateId, targetVersion);
+  if (!fs.existsSync(bodyPath)) {
+    throw new Error(`プロンプトテンプレート「${record.name}」の v${targetVersion} が見つかりません。`);
+  }
+  return { templateId, version: targetVersion, body: fs.readFileSync(bodyPath, "utf8") };
+}
+
+/**
+ * 設定で選ばれているテンプレートの最新版。選ばれたテンプレートが見つからなければ標準テンプレートを使う。
+ */
+export function resolveActivePromptTemplate(): ResolvedPromptTemplate {
+  const templateId = getActivePromptTemplateId() ?? DEFAULT_PROMPT_TEMPLATE_ID;
+  if (!hasPromptTemplate(templateId)) {
+    console.warn(`[prompt-templates] active template ${templateId} not found; using the default template`);
+    return loadPromptTemplate(DEFAULT_PROMPT_TEMPLATE_ID);
+  }
+  return loadPromptTemplate(templateId);
+}
+
+/**
+ * 設定画面のテンプレート編集に必要な情報（選択中のテンプレート・組み込みの標準テンプレート・保存済み一覧）。
+ */
+export function getPromptTemplateSettings() {
+  return {
+    activeTemplateId: resolveActivePromptTemplate().templateId,
+    defaultTemplate: {
+      templateId: DEFAULT_PROMPT_TEMPLATE_ID,
+      name: DEFAULT_PROMPT_TEMPLATE_NAME,
+      body: DEFAULT_PROMPT_TEMPLATE_BODY,
+    },
+    templates: listPromptTemplates(),
+    placeholders: PROMPT_TEMPLATE_PLACEHOLDERS,
+  };
+}
+
+export function createPromptTemplate(params: { name: string; body: string; note?: string }): PromptTemplateRecord {
+  assertValidTemplate(params.body);
+  const now = new Date().toISOString();
+  const record: PromptTemplateRecord = {
+    templateId: createTemplateId(),
+    name: params.name.trim(),
+    createdAt: now,
+    updatedAt: now,
+    versions: [{ version: 1, createdAt: now, note: params.note?.trim() || undefined }],
+  };
+  fs.mkdirSync(getTemplateDir(record.templateId), { recursive: true });
+  fs.writeFileSync(getTemplateBodyPath(record.templateId, 1), params.body, "utf8");
+  writeJsonAtomic(getTemplateJsonPath(record.templateId), record);
+  return record;
+}
+
+/**
+ * 本文を新しい版として追加する。最新版と同じ本文なら版は増やさず、名前の変更だけを保存する。
+ */
+export function savePromptTemplateVersion(
+  templateId: string,
+  params: { name?: string; body: string; note?: string },
+): PromptTemplateRecord {
+  if (templateId === DEFAULT_PROMPT_TEMPLATE_ID) {
+    throw new Error("組み込みの標準テンプレートは編集できません。新しいテンプレートとして保存してください。");
+  }
+  assertValidTemplate(params.body);
+  const record = readTemplateRecord(templateId);
+  if (!record) {
+    throw new Error("プロンプトテンプレートが見つかりません。");
+  }
+
+  const now = new Date().toISOString();
+  const current = loadPromptTemplate(templateId);
+  if (current.body !== params.body) {
+    const version = current.version + 1;
+    fs.writeFileSync(getTemplateBodyPath(templateId, version), params.body, "utf8");
+    record.versions.push({ version, createdAt: now, note: params.note?.trim() || undefined });
+  }
+  record.name = params.name?.trim() || record.name;
+  record.updatedAt = now;
+  writeJsonAtomic(getTemplateJsonPath(templateId), record);
+  return record;
+}
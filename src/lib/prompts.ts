@@ -1,4 +1,7 @@
-import type { ManualMemoExclusion, SlideInfo } from "@/lib/types";
+import { DEFAULT_ASPECT_RATIO, describeAspectRatio } from "@/lib/aspect-ratio";
+import { describePageRole } from "@/lib/page-roles";
+import { DEFAULT_PROMPT_TEMPLATE_BODY, renderPromptTemplate } from "@/lib/prompt-templates";
+import type { ManualMemoExclusion, MaskRect, SlideInfo } from "@/lib/types";
 
 type ExclusionResult = {
   keptTextBlocks: string[];
@@ -80,6 +83,38 @@ export function getPromptExclusionStats(params: {
   };
 }
 
+function toPercent(value: number): number {
+  return Math.round(value * 100);
+}
+
+/**
+ * 範囲指定の修正で、修正指示に添える対象範囲の説明（画像の左上を原点にした割合）。
+ */
+export function describeMaskRegions(rects: MaskRect[]): string {
+  return [
+    "修正対象の範囲（画像の左上を原点に、幅・高さに対する割合）:",
+    ...rects.map(
+      (rect, index) =>
+        `${index + 1}. 左から${toPercent(rect.x)}%〜${toPercent(rect.x + rect.width)}%、上から${toPercent(rect.y)}%〜${toPercent(rect.y + rect.height)}%`,
+    ),
+    "この範囲の外は変更しないこと（範囲外は前の画像がそのまま使われます）。",
+  ].join("\n");
+}
+
+/**
+ * 対話的な修正の最後のターン。一緒に送る現在の画像に対して、指示した箇所だけを直させる。
+ */
+export function buildConversationalFixPrompt(fixPrompt: string): string {
+  return [
+    "添付画像は現在のスライドです。この画像をもとに、次の修正指示だけを反映してください。",
+    "",
+    "追加の修正指示:",
+    fixPrompt,
+    "",
+    "重要: 上記修正指示に関係しない部分は一切変更しないこと。これまでの修正内容も維持すること。",
+  ].join("\n");
+}
+
 export function buildPromptForSlide(params: {
   slide: SlideInfo;
   designPrompt: string;
@@ -87,6 +122,9 @@ export function buildPromptForSlide(params: {
   manualMemoExclusions?: ManualMemoExclusion[];
   extraFixPrompt?: string;
   logoReferenceCount?: number;
+  aspectRatio?: string;
+  brandConstraints?: string;
+  template?: string;
 }): string {
   const {
     slide,
@@ -95,6 +133,9 @@ export function buildPromptForSlide(params: {
     manualMemoExclusions,
     extraFixPrompt,
     logoReferenceCount = 0,
+    aspectRatio = DEFAULT_ASPECT_RATIO,
+    brandConstraints = "",
+    template = DEFAULT_PROMPT_TEMPLATE_BODY,
   } = params;
   const { keptTextBlocks, keptNotes } = resolveExclusions({
     slide,
@@ -102,38 +143,27 @@ export function buildPromptForSlide(params: {
     manualMemoExclusions,
   });
 
+  const pageRole = describePageRole(slide.role);
   const contentText = keptTextBlocks.length > 0 ? keptTextBlocks.join("\n") : "(本文テキストなし)";
   const notesText = keptNotes.length > 0 ? keptNotes.join("\n") : "(ノートなし)";
 
-  return [
-    "あなたが行うべき作業:",
-    "- 添付された元スライド1ページを読み取り、同じページ数のまま画像を1枚生成する。",
-    "- 出力画像は必ず横長16:9（プレゼン資料比率）で作成する。",
-    "- 元資料にロゴ/ブランドマークが含まれる場合、ロゴの形状・色・文字・比率を厳密に保持し、改変・再描画・置換を絶対に行わない。",
-    logoReferenceCount > 0
-      ? "- 添付されたロゴ画像は唯一の正解とし、ロゴ部分は添付ロゴと完全一致させる。"
-      : "",
-    "- 元資料の記載内容・構成・主張・数字は保持する。",
-    "- 修正指示に明記された箇所以外は、レイアウト・文言・装飾・要素配置を絶対に変更しない。",
-    "- 読みやすさ向上のための軽いリライトは許可。意味変更は不可。",
-    "- スピーカーノート/メモ書き/制作指示は出力に含めない。",
-    "- デザイン参考画像が添付されている場合はそのテイストを反映する。",
-    "- もし全体デザインプロンプトと参考画像のテイストが相反する場合は、両方の要素をミックスして調和させる。",
-    "- 不要な多重四角形や過剰な重なり表現は避け、意図がある場合のみ採用する。",
-    "",
-    "全体デザインプロンプト:",
-    designPrompt,
-    "",
-    `対象ページ: ${slide.page}`,
-    "このページの本文テキスト:",
-    contentText,
-    "",
-    "このページのノート (参考のみ・通常は出力しない):",
-    notesText,
-    extraFixPrompt
-      ? `\n追加の修正指示:\n${extraFixPrompt}\n\n重要: 上記修正指示に関係しない部分は一切変更しないこと。`
+  const prompt = renderPromptTemplate(template, {
+    designPrompt: slide.designPromptOverride?.trim() || designPrompt,
+    brandConstraints,
+    page: slide.page,
+    pageRole,
+    aspectRatio: describeAspectRatio(aspectRatio),
+    keptText: contentText,
+    notes: notesText,
+    fixPrompt: extraFixPrompt ?? "",
+    logoCount: logoReferenceCount,
+  });
+  // ブランド規定・ページの役割の導入前に作ったテンプレートにも必ず入るよう、差し込み位置がなければ末尾に付ける。
+  const appended = [
+    brandConstraints && !template.includes("{{brandConstraints}}")
+      ? `ブランド規定（必ず守ること）:\n${brandConstraints}`
       : "",
-  ]
-    .filter(Boolean)
-    .join("\n");
+    pageRole && !template.includes("{{pageRole}}") ? `このページの役割と扱い:\n${pageRole}` : "",
+  ].filter(Boolean);
+  return [prompt, ...appended].join("\n\n");
 }
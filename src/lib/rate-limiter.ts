@@ -0,0 +1,71 @@
+type TokenBucket = {
+  requestsPerMinute: number;
+  tokens: number;
+  updatedAt: number;
+};
+
+// デザイン確認・生成・再生成のルートが別バンドルでも同じバケットを共有できるよう globalThis に保持する。
+const globalForRateLimiter = globalThis as typeof globalThis & {
+  __rateLimitBuckets?: Map<string, TokenBucket>;
+};
+
+function getBuckets(): Map<string, TokenBucket> {
+  if (!globalForRateLimiter.__rateLimitBuckets) {
+    globalForRateLimiter.__rateLimitBuckets = new Map();
+  }
+  return globalForRateLimiter.__rateLimitBuckets;
+}
+
+function refill(bucket: TokenBucket, requestsPerMinute: number, now: number): void {
+  const elapsed = Math.max(0, now - bucket.updatedAt);
+  bucket.requestsPerMinute = requestsPerMinute;
+  bucket.tokens = Math.min(requestsPerMinute, bucket.tokens + (elapsed * requestsPerMinute) / 60_000);
+  bucket.updatedAt = now;
+}
+
+/**
+ * key（モデル名）ごとのトークンバケットから1リクエスト分を取得する。空きがなければ失敗させずに順番まで待つ。
+ * トークンを先に借りて（残量がマイナスになる）待つ方式なので、待機中の呼び出しは到着順に解放される。
+ * 待機した時間（ms）を返す。中断された場合は借りたトークンを戻して signal の理由で reject する。
+ */
+export async function acquireRateLimit(
+  key: string,
+  requestsPerMinute: number,
+  signal?: AbortSignal,
+): Promise<number> {
+  if (signal?.aborted) {
+    throw signal.reason;
+  }
+
+  const rpm = Math.max(1, requestsPerMinute);
+  const buckets = getBuckets();
+  const now = Date.now();
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = { requestsPerMinute: rpm, tokens: rpm, updatedAt: now };
+    buckets.set(key, bucket);
+  }
+  refill(bucket, rpm, now);
+
+  bucket.tokens -= 1;
+  if (bucket.tokens >= 0) {
+    return 0;
+  }
+
+  const waitMs = Math.ceil((-bucket.tokens * 60_000) / rpm);
+  const reserved = bucket;
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, waitMs);
+    const onAbort = () => {
+      clearTimeout(timer);
+      refill(reserved, reserved.requestsPerMinute, Date.now());
+      reserved.tokens = Math.min(reserved.requestsPerMinute, reserved.tokens + 1);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+  return waitMs;
+}
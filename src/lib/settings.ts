@@ -1,8 +1,23 @@
 import fs from "node:fs";
-import path from "node:path";
 import { decryptWithDpapi, encryptWithDpapi } from "@/lib/dpapi";
-import { ensureDir, SETTINGS_FILE } from "@/lib/paths";
-import type { SettingsRecord } from "@/lib/types";
+import { SETTINGS_FILE, writeJsonAtomic } from "@/lib/paths";
+import type { GenerationSettings, ModelPrice, SettingsRecord, SpendingLimits } from "@/lib/types";
+
+export const DEFAULT_GENERATION_CONCURRENCY = 1;
+export const MAX_GENERATION_CONCURRENCY = 8;
+
+// 公開価格をもとにした既定の単価（USD / 100万トークン）。画像出力は出力トークンとして課金される。
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gemini-3-pro-image-preview": { inputUsdPerMillionTokens: 2, outputUsdPerMillionTokens: 120 },
+  "gemini-2.5-flash-image": { inputUsdPerMillionTokens: 0.3, outputUsdPerMillionTokens: 30 },
+};
+
+// モデルごとの既定の毎分リクエスト数。無料枠・低ティアでも 429 が出にくい控えめな値にしている。
+export const DEFAULT_RATE_LIMITS_RPM: Record<string, number> = {
+  "gemini-3-pro-image-preview": 10,
+  "gemini-2.5-flash-image": 30,
+};
+export const FALLBACK_RATE_LIMIT_RPM = 10;
 
 function readSettings(): SettingsRecord | null {
   if (!fs.existsSync(SETTINGS_FILE)) {
@@ -12,18 +27,24 @@ function readSettings(): SettingsRecord | null {
   return JSON.parse(raw) as SettingsRecord;
 }
 
-export function saveApiKey(apiKey: string): void {
-  ensureDir(path.dirname(SETTINGS_FILE));
+function writeSettings(patch: Partial<SettingsRecord>): void {
   const payload: SettingsRecord = {
+    ...(readSettings() ?? {}),
+    ...patch,
+  };
+  writeJsonAtomic(SETTINGS_FILE, payload);
+}
+
+export function saveApiKey(apiKey: string): void {
+  writeSettings({
     apiKeyEncrypted: encryptWithDpapi(apiKey),
     updatedAt: new Date().toISOString(),
-  };
-  fs.writeFileSync(SETTINGS_FILE, JSON.stringify(payload, null, 2), "utf8");
+  });
 }
 
 export function getApiKey(): string | null {
   const settings = readSettings();
-  if (!settings) {
+  if (!settings?.apiKeyEncrypted) {
     return null;
   }
   return decryptWithDpapi(settings.apiKeyEncrypted);
@@ -31,8 +52,79 @@ export function getApiKey(): string | null {
 
 export function getApiKeyStatus(): { configured: boolean; lastUpdatedAt: string | null } {
   const settings = readSettings();
-  if (!settings) {
+  if (!settings?.apiKeyEncrypted) {
     return { configured: false, lastUpdatedAt: null };
   }
-  return { configured: true, lastUpdatedAt: settings.updatedAt };
+  return { configured: true, lastUpdatedAt: settings.updatedAt ?? null };
+}
+
+export function getGenerationSettings(): GenerationSettings {
+  const settings = readSettings();
+  const concurrency = Math.round(settings?.generationConcurrency ?? DEFAULT_GENERATION_CONCURRENCY);
+  return {
+    concurrency: Math.max(1, Math.min(MAX_GENERATION_CONCURRENCY, concurrency)),
+  };
+}
+
+export function saveGenerationSettings(settings: GenerationSettings): GenerationSettings {
+  writeSettings({ generationConcurrency: settings.concurrency });
+  return getGenerationSettings();
+}
+
+export function getDefaultImageProviderSetting(): string | null {
+  return readSettings()?.defaultImageProvider ?? null;
+}
+
+export function saveDefaultImageProvider(providerId: string): void {
+  writeSettings({ defaultImageProvider: providerId });
+}
+
+export function getActivePromptTemplateId(): string | null {
+  return readSettings()?.promptTemplateId ?? null;
+}
+
+export function saveActivePromptTemplateId(templateId: string): void {
+  writeSettings({ promptTemplateId: templateId });
+}
+
+export function getModelPrices(): Record<string, ModelPrice> {
+  return {
+    ...DEFAULT_MODEL_PRICES,
+    ...(readSettings()?.modelPrices ?? {}),
+  };
+}
+
+export function saveModelPrices(prices: Record<string, ModelPrice>): Record<string, ModelPrice> {
+  writeSettings({ modelPrices: prices });
+  return getModelPrices();
+}
+
+export function getRateLimits(): Record<string, number> {
+  return {
+    ...DEFAULT_RATE_LIMITS_RPM,
+    ...(readSettings()?.rateLimitsRpm ?? {}),
+  };
+}
+
+export function getRateLimitForModel(model: string): number {
+  return getRateLimits()[model] ?? FALLBACK_RATE_LIMIT_RPM;
+}
+
+export function saveRateLimits(limits: Record<string, number>): Record<string, number> {
+  writeSettings({ rateLimitsRpm: limits });
+  return getRateLimits();
+}
+
+export function getSpendingLimits(): SpendingLimits {
+  const limits = readSettings()?.spendingLimits;
+  return {
+    perJobUsd: limits?.perJobUsd ?? null,
+    perDayUsd: limits?.perDayUsd ?? null,
+    perMonthUsd: limits?.perMonthUsd ?? null,
+  };
+}
+
+export function saveSpendingLimits(limits: SpendingLimits): SpendingLimits {
+  writeSettings({ spendingLimits: limits });
+  return getSpendingLimits();
 }
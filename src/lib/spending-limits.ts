@@ -0,0 +1,92 @@
+import { getModelPrices, getSpendingLimits } from "@/lib/settings";
+import type { ImageSize } from "@/lib/types";
+import { approximateUsage, estimateUsageCost, sumUsageByScope, toDayKey, toMonthKey } from "@/lib/usage";
+
+type SpendingReservation = {
+  jobId: string;
+  estimatedCostUsd: number;
+};
+
+// 実行中のページの見込み額。結果が保存されるまでは集計に現れないため、並列実行中も上限を超えないよう別に持つ。
+const globalForSpending = globalThis as typeof globalThis & {
+  __spendingReservations?: Map<string, SpendingReservation>;
+};
+
+function getReservations(): Map<string, SpendingReservation> {
+  globalForSpending.__spendingReservations ??= new Map();
+  return globalForSpending.__spendingReservations;
+}
+
+/**
+ * 1ページ分の推定コスト（実行前の見込み）。
+ */
+export function estimatePageCost(params: {
+  model: string;
+  imageSize: ImageSize;
+  prompt: string;
+  inputImageCount: number;
+}): number {
+  const { model, ...rest } = params;
+  return estimateUsageCost(model, approximateUsage(rest), getModelPrices()).estimatedCostUsd;
+}
+
+/**
+ * 利用上限（ジョブ / 日 / 月の推定コスト）を API 呼び出し前に確認する。
+ * 保存済みの結果と実行中のページの見込み額に、これから呼び出す分の見込み額（estimatedCostUsd）を足して上限を超えるなら止める。
+ * 止める場合はメッセージを、そうでなければ null を返す。
+ */
+export function checkSpendingLimits(jobId: string, estimatedCostUsd = 0, now = new Date()): string | null {
+  const limits = getSpendingLimits();
+  if (limits.perJobUsd === null && limits.perDayUsd === null && limits.perMonthUsd === null) {
+    return null;
+  }
+
+  const totals = sumUsageByScope({ jobId, dayKey: toDayKey(now), monthKey: toMonthKey(now) });
+  const reservations = [...getReservations().values()];
+  const reserved = reservations.reduce((sum, row) => sum + row.estimatedCostUsd, 0);
+  const reservedForJob = reservations
+    .filter((row) => row.jobId === jobId)
+    .reduce((sum, row) => sum + row.estimatedCostUsd, 0);
+  const checks: Array<{ label: string; limit: number | null; spent: number; reserved: number }> = [
+    { label: "このジョブ", limit: limits.perJobUsd, spent: totals.job?.estimatedCostUsd ?? 0, reserved: reservedForJob },
+    { label: "本日", limit: limits.perDayUsd, spent: totals.day.estimatedCostUsd, reserved },
+    { label: "今月", limit: limits.perMonthUsd, spent: totals.month.estimatedCostUsd, reserved },
+  ];
+
+  for (const check of checks) {
+    if (check.limit === null) {
+      continue;
+    }
+    const committed = check.spent + check.reserved;
+    if (committed >= check.limit || committed + estimatedCostUsd > check.limit) {
+      const inFlight = check.reserved > 0 ? ` / 実行中の見込み: $${check.reserved.toFixed(2)}` : "";
+      const planned = estimatedCostUsd > 0 ? ` / 今回の見込み: $${estimatedCostUsd.toFixed(2)}` : "";
+      return `${check.label}の利用上限（$${check.limit.toFixed(2)}）を超えるため生成しませんでした。（推定利用額: $${check.spent.toFixed(2)}${inFlight}${planned}）`;
+    }
+  }
+  return null;
+}
+
+/**
+ * 上限を確認し、問題なければこのページの見込み額を key で予約する。
+ * 確認から予約までに await を挟まないので、並列のワーカー同士で同じ残額を使い合うことはない。
+ * 予約は結果を保存したあとに releaseSpending で外す。
+ */
+export function reserveSpending(params: { key: string; jobId: string; estimatedCostUsd: number }): string | null {
+  const message = checkSpendingLimits(params.jobId, params.estimatedCostUsd);
+  if (!message) {
+    holdSpending(params);
+  }
+  return message;
+}
+
+/**
+ * 確認済みの見込み額を予約として持ち直す（再起動後も結果待ちのバッチの分を数え続けるため）。
+ */
+export function holdSpending(params: { key: string; jobId: string; estimatedCostUsd: number }): void {
+  getReservations().set(params.key, { jobId: params.jobId, estimatedCostUsd: params.estimatedCostUsd });
+}
+
+export function releaseSpending(key: string): void {
+  getReservations().delete(key);
+}
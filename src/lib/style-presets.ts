@@ -0,0 +1,157 @@
+import fs from "node:fs";
+import path from "node:path";
+import { hasBrandKit } from "@/lib/brand-kits";
+import { appendDesignReferenceFiles, appendLogoReferenceFiles, loadJob, setJobBrandKit } from "@/lib/jobs-store";
+import { getJobDir, STYLE_PRESETS_DIR, writeJsonAtomic } from "@/lib/paths";
+import type { ImageSize, JobRecord, StylePreset } from "@/lib/types";
+
+function getPresetDir(presetId: string): string {
+  return path.join(STYLE_PRESETS_DIR, path.basename(presetId));
+}
+
+function getPresetJsonPath(presetId: string): string {
+  return path.join(getPresetDir(presetId), "preset.json");
+}
+
+function createPresetId(): string {
+  return `preset_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function readPreset(presetId: string): StylePreset | null {
+  const jsonPath = getPresetJsonPath(presetId);
+  if (!fs.existsSync(jsonPath)) {
+    return null;
+  }
+  const preset = JSON.parse(fs.readFileSync(jsonPath, "utf8")) as StylePreset;
+  return {
+    ...preset,
+    designReferenceFiles: Array.isArray(preset.designReferenceFiles) ? preset.designReferenceFiles : [],
+    logoReferenceFiles: Array.isArray(preset.logoReferenceFiles) ? preset.logoReferenceFiles : [],
+  };
+}
+
+export function loadStylePreset(presetId: string): StylePreset {
+  const preset = readPreset(presetId);
+  if (!preset) {
+    throw new Error("スタイルプリセットが見つかりません。");
+  }
+  return preset;
+}
+
+/**
+ * 保存済みのスタイルプリセット。どのジョブからも使えるよう data/style-presets にまとめて置く。名前順に並べる。
+ */
+export function listStylePresets(): StylePreset[] {
+  if (!fs.existsSync(STYLE_PRESETS_DIR)) {
+    return [];
+  }
+  return fs
+    .readdirSync(STYLE_PRESETS_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .flatMap((entry) => {
+      const preset = readPreset(entry.name);
+      return preset ? [preset] : [];
+    })
+    .sort((a, b) => a.name.localeCompare(b.name, "ja"));
+}
+
+/**
+ * ジョブの画像をプリセットのフォルダへコピーし、プリセットからの相対パスを返す。
+ */
+function copyJobFiles(job: JobRecord, files: string[], presetDir: string, subDir: string): string[] {
+  const jobDir = getJobDir(job.jobId);
+  fs.mkdirSync(path.join(presetDir, subDir), { recursive: true });
+  return files.flatMap((file) => {
+    const sourcePath = path.join(jobDir, file);
+    if (!fs.existsSync(sourcePath)) {
+      return [];
+    }
+    const relativePath = path.join(subDir, path.basename(file)).replaceAll("\\", "/");
+    fs.copyFileSync(sourcePath, path.join(presetDir, relativePath));
+    return [relativePath];
+  });
+}
+
+/**
+ * 現在のジョブのデザインプロンプト・参考画像・ロゴ・モデル/サイズからプリセットを作る。画像はプリセット側にコピーするので、元のジョブを消しても使える。
+ */
+export function createStylePresetFromJob(params: {
+  jobId: string;
+  name: string;
+  designPrompt: string;
+  model?: string;
+  imageSize?: ImageSize;
+  includeDesignReferences: boolean;
+  includeLogos: boolean;
+}): StylePreset {
+  const job = loadJob(params.jobId);
+  const presetId = createPresetId();
+  const presetDir = getPresetDir(presetId);
+  fs.mkdirSync(presetDir, { recursive: true });
+
+  const now = new Date().toISOString();
+  const preset: StylePreset = {
+    presetId,
+    name: params.name.trim(),
+    designPrompt: params.designPrompt,
+    designReferenceFiles: params.includeDesignReferences
+      ? copyJobFiles(job, job.designReferenceFiles ?? [], presetDir, "design-references")
+      : [],
+    logoReferenceFiles: params.includeLogos
+      ? copyJobFiles(job, job.logoReferenceFiles ?? [], presetDir, "logo-references")
+      : [],
+    model: params.model,
+    imageSize: params.imageSize,
+    brandKitId: job.brandKitId,
+    sourceJobId: job.jobId,
+    createdAt: now,
+    updatedAt: now,
+  };
+  writeJsonAtomic(getPresetJsonPath(presetId), preset);
+  return preset;
+}
+
+/**
+ * プリセットの画像をジョブの参考画像・ロゴとして追加する。同じプリセットを何度適用しても同じファイルは重複しない。
+ */
+function copyPresetFiles(preset: StylePreset, files: string[], jobId: string, subDir: string): string[] {
+  const presetDir = getPresetDir(preset.presetId);
+  const targetDir = path.join(getJobDir(jobId), "source", subDir);
+  fs.mkdirSync(targetDir, { recursive: true });
+  return files.flatMap((file) => {
+    const sourcePath = path.join(presetDir, file);
+    if (!fs.existsSync(sourcePath)) {
+      return [];
+    }
+    const savedName = `${preset.presetId}_${path.basename(file)}`;
+    const relativePath = path.join("source", subDir, savedName).replaceAll("\\", "/");
+    const targetPath = path.join(targetDir, savedName);
+    if (!fs.existsSync(targetPath)) {
+      fs.copyFileSync(sourcePath, targetPath);
+    }
+    return [relativePath];
+  });
+}
+
+/**
+ * プリセットの参考画像・ロゴ・ブランドキットをジョブへ反映する。デザインプロンプトとモデル/サイズは画面側の入力欄に反映するため、プリセットごと返す。
+ */
+export function applyStylePresetToJob(jobId: string, presetId: string): { job: JobRecord; preset: StylePreset } {
+  const preset = loadStylePreset(presetId);
+  loadJob(jobId);
+
+  const designReferenceFiles = copyPresetFiles(preset, preset.designReferenceFiles, jobId, "design-references");
+  const logoReferenceFiles = copyPresetFiles(preset, preset.logoReferenceFiles, jobId, "logo-references");
+  appendDesignReferenceFiles(jobId, designReferenceFiles);
+  appendLogoReferenceFiles(jobId, logoReferenceFiles);
+  // プリセットのブランドキットが削除されていれば、ジョブのブランドキットは変えない。
+  if (preset.brandKitId && hasBrandKit(preset.brandKitId)) {
+    setJobBrandKit(jobId, preset.brandKitId);
+  }
+  return { job: loadJob(jobId), preset };
+}
+
+export function deleteStylePreset(presetId: string): void {
+  loadStylePreset(presetId);
+  fs.rmSync(getPresetDir(presetId), { recursive: true, force: true });
+}
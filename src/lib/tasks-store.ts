@@ -0,0 +1,82 @@
+import fs from "node:fs";
+import path from "node:path";
+import { getJobDir, JOBS_DIR, writeJsonAtomic } from "@/lib/paths";
+import type { GenerationTask } from "@/lib/types";
+
+export function createTaskId(): string {
+  return `task_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function getTasksDir(jobId: string): string {
+  return path.join(getJobDir(jobId), "tasks");
+}
+
+export function getTaskJsonPath(jobId: string, taskId: string): string {
+  return path.join(getTasksDir(jobId), `${path.basename(taskId)}.json`);
+}
+
+export function saveTask(task: GenerationTask): void {
+  writeJsonAtomic(getTaskJsonPath(task.jobId, task.taskId), task);
+}
+
+export function loadTask(jobId: string, taskId: string): GenerationTask {
+  const jsonPath = getTaskJsonPath(jobId, taskId);
+  if (!fs.existsSync(jsonPath)) {
+    throw new Error("生成タスクが見つかりません。");
+  }
+
+  const task = JSON.parse(fs.readFileSync(jsonPath, "utf8")) as GenerationTask;
+  return {
+    ...task,
+    results: Array.isArray(task.results) ? task.results : [],
+  };
+}
+
+export function updateTask(
+  jobId: string,
+  taskId: string,
+  update: (task: GenerationTask) => void,
+): GenerationTask {
+  const task = loadTask(jobId, taskId);
+  update(task);
+  saveTask(task);
+  return task;
+}
+
+/**
+ * タスクを作成順に列挙する。jobId を省略すると全ジョブが対象。
+ */
+export function listTasks(jobId?: string): GenerationTask[] {
+  if (!fs.existsSync(JOBS_DIR)) {
+    return [];
+  }
+
+  const tasks: GenerationTask[] = [];
+  const jobIds = jobId ? [jobId] : fs.readdirSync(JOBS_DIR);
+  for (const currentJobId of jobIds) {
+    const tasksDir = getTasksDir(currentJobId);
+    if (!fs.existsSync(tasksDir)) {
+      continue;
+    }
+    for (const name of fs.readdirSync(tasksDir)) {
+      if (!name.endsWith(".json")) {
+        continue;
+      }
+      try {
+        tasks.push(loadTask(currentJobId, path.basename(name, ".json")));
+      } catch {
+        continue;
+      }
+    }
+  }
+
+  return tasks.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * 全ジョブから未完了（queued / running）のタスクを作成順に列挙する。
+ * プロセス再起動後にキューを復元するために使う。
+ */
+export function listUnfinishedTasks(): GenerationTask[] {
+  return listTasks().filter((task) => task.status === "queued" || task.status === "running");
+}
@@ -13,12 +13,31 @@ export type ManualMemoExclusion = {
   enabled: boolean;
 };
 
+/**
+ * ページの役割。役割ごとの扱い（表紙はタイトルを大きく、表は読みやすさ優先など）を指示文に加える。
+ */
+export type PageRole = "cover" | "agenda" | "section" | "content" | "table" | "visual" | "closing";
+
+/**
+ * 抽出したテキスト枠の配置と量から推定した役割。採用するまでプロンプトには使わない。
+ */
+export type PageRoleSuggestion = {
+  role: PageRole;
+  // 0〜1 の目安。
+  confidence: number;
+  reason: string;
+};
+
 export type SlideInfo = {
   page: number;
   sourceImageFile: string;
   textBlocks: string[];
   notes: string[];
   memoCandidates: MemoCandidate[];
+  role?: PageRole;
+  roleSuggestion?: PageRoleSuggestion;
+  // 指定があれば、このページだけ全体デザインプロンプトの代わりに使う。
+  designPromptOverride?: string;
 };
 
 export type LogoLockDetection = {
@@ -39,41 +58,280 @@ export type LogoLockInfo = {
   message?: string;
 };
 
+/**
+ * モデルの応答に含まれていた補足情報。画像が空・拒否されたときの理由確認に使う。
+ */
+export type GenerationFeedback = {
+  textParts: string[];
+  finishReason?: string;
+  blockReason?: string;
+  blockedCategories: string[];
+};
+
+export type GenerationUsage = {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  imageCount: number;
+  estimatedCostUsd: number;
+  // 課金された API 呼び出しが終わった時刻。日・月の集計に使う（古い結果には無いのでタスクの作成時刻で代用する）。
+  recordedAt?: string;
+};
+
 export type GenerationResult = {
   page: number;
   version: number;
   promptFile: string;
   outputImageFile: string;
   responseJsonFile: string;
-  status: "success" | "error";
+  status: "success" | "error" | "cancelled";
   logoLock?: LogoLockInfo;
+  cacheKey?: string;
+  cached?: boolean;
+  inputHash?: string;
+  usage?: GenerationUsage;
+  feedback?: GenerationFeedback;
+  fixPrompt?: string;
+  editedFromVersion?: number;
+  maskRects?: MaskRect[];
+  maskBaseVersion?: number;
+  brandCheck?: BrandColorCheck;
   error?: string;
 };
 
+export type ImageSize = "1K" | "2K" | "4K";
+
 export type GenerationRun = {
   runId: string;
-  type: "generate" | "regenerate";
+  type: "generate" | "regenerate" | "retry";
+  provider?: string;
   model: string;
+  imageSize?: ImageSize;
+  variants?: number;
+  designPrompt?: string;
+  promptTemplateId?: string;
+  promptTemplateVersion?: number;
   createdAt: string;
+  status?: "running" | "completed" | "partial" | "failed";
+  taskId?: string;
   results: GenerationResult[];
 };
 
+/**
+ * 画像上の矩形。x / y / width / height は画像の幅・高さに対する 0〜1 の比率。
+ */
+export type MaskRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type RegenerateEdit = {
+  page: number;
+  fixPrompt: string;
+  continueFromCurrent?: boolean;
+  maskRects?: MaskRect[];
+  // 範囲を描いた画像の版。省略時は現在の版。
+  maskBaseVersion?: number;
+};
+
+/**
+ * 失敗したページの再試行。修正指示・範囲指定・続けての修正は、失敗時と同じ指定で作り直す。
+ */
+export type RetryTarget = {
+  page: number;
+  promptFile: string;
+  sourceRunId: string;
+  fixPrompt?: string;
+  editedFromVersion?: number;
+  maskRects?: MaskRect[];
+  maskBaseVersion?: number;
+};
+
+export type GenerationTaskKind = "generate" | "regenerate" | "retry" | "design-check";
+
+export type GenerationTaskStatus = "queued" | "running" | "completed" | "cancelled" | "failed";
+
+export type GenerationTaskPlanItem = {
+  page: number;
+  version: number;
+  fixPrompt?: string;
+  promptFile?: string;
+  editedFromVersion?: number;
+  maskRects?: MaskRect[];
+  maskBaseVersion?: number;
+};
+
+export type GenerationBatchState = "pending" | "running" | "succeeded" | "failed" | "cancelled" | "expired";
+
+export type GenerationBatch = {
+  batchName: string;
+  taskId: string;
+  runId: string;
+  model: string;
+  state: GenerationBatchState;
+  requestCount: number;
+  submittedAt: string;
+  checkedAt?: string;
+  finishedAt?: string;
+  error?: string;
+};
+
+export type GenerationTask = {
+  taskId: string;
+  jobId: string;
+  kind: GenerationTaskKind;
+  status: GenerationTaskStatus;
+  runId: string;
+  provider?: string;
+  model: string;
+  imageSize?: ImageSize;
+  variants?: number;
+  reuseIfUnchanged?: boolean;
+  overrideSpendingLimits?: boolean;
+  batchMode?: boolean;
+  batchName?: string;
+  batchState?: GenerationBatchState;
+  // 投入したバッチの推定コスト（バッチ単価）。結果を保存するまで利用上限の予約として数える。
+  batchEstimatedCostUsd?: number;
+  // バッチ結果の取得に続けて失敗した回数。上限を超えたらタスクを失敗にする。
+  batchDownloadFailures?: number;
+  designPrompt: string;
+  promptTemplateId?: string;
+  promptTemplateVersion?: number;
+  pages: number[];
+  edits?: RegenerateEdit[];
+  retryTargets?: RetryTarget[];
+  plan?: GenerationTaskPlanItem[];
+  results: GenerationResult[];
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+};
+
 export type JobRecord = {
   jobId: string;
   sourcePptFile: string;
   createdAt: string;
   slideCount: number;
+  slideWidthEmu?: number;
+  slideHeightEmu?: number;
+  aspectRatio?: string;
   slides: SlideInfo[];
   memoDecisions: Record<string, boolean>;
   designReferenceFiles?: string[];
   logoReferenceFiles?: string[];
   manualMemoExclusions?: ManualMemoExclusion[];
+  imageProvider?: string;
+  brandKitId?: string;
+  chosenVersions?: Record<string, number>;
+  batches?: GenerationBatch[];
   runs: GenerationRun[];
 };
 
 export type SettingsRecord = {
-  apiKeyEncrypted: string;
+  apiKeyEncrypted?: string;
+  updatedAt?: string;
+  generationConcurrency?: number;
+  modelPrices?: Record<string, ModelPrice>;
+  spendingLimits?: SpendingLimits;
+  rateLimitsRpm?: Record<string, number>;
+  defaultImageProvider?: string;
+  promptTemplateId?: string;
+};
+
+/**
+ * data/style-presets/<presetId>/preset.json。画像のパスはプリセットのフォルダからの相対パス。
+ */
+export type StylePreset = {
+  presetId: string;
+  name: string;
+  designPrompt: string;
+  designReferenceFiles: string[];
+  logoReferenceFiles: string[];
+  model?: string;
+  imageSize?: ImageSize;
+  brandKitId?: string;
+  sourceJobId?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type BrandColor = {
+  hex: string;
+  name?: string;
+};
+
+/**
+ * data/brand-kits/<brandKitId>.json。色・フォント・トーンはプロンプトの制約として送り、色は生成後の検査にも使う。
+ */
+export type BrandKit = {
+  brandKitId: string;
+  name: string;
+  colors: BrandColor[];
+  fonts: string[];
+  toneRules: string[];
+  // 主要色とブランドカラーの色差（CIE76 ΔE）がこれを超えるとブランド外の色とみなす。
+  maxColorDistance: number;
+  // ブランド外の色が画像に占める割合がこれを超えるページを要確認にする（0〜1）。
+  maxOffPaletteShare: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type BrandDominantColor = {
+  hex: string;
+  share: number;
+  neutral: boolean;
+  nearestBrandHex: string | null;
+  distance: number | null;
+  offPalette: boolean;
+};
+
+export type BrandColorCheck = {
+  brandKitId: string;
+  dominantColors: BrandDominantColor[];
+  offPaletteShare: number;
+  flagged: boolean;
+  message: string;
+};
+
+export type PromptTemplateVersionInfo = {
+  version: number;
+  createdAt: string;
+  note?: string;
+};
+
+/**
+ * data/prompt-templates/<templateId>/template.json。各版の本文は同じフォルダの v<版>.txt に保存する。
+ */
+export type PromptTemplateRecord = {
+  templateId: string;
+  name: string;
+  createdAt: string;
   updatedAt: string;
+  versions: PromptTemplateVersionInfo[];
+};
+
+export type SpendingLimits = {
+  perJobUsd: number | null;
+  perDayUsd: number | null;
+  perMonthUsd: number | null;
+};
+
+export type ModelPrice = {
+  inputUsdPerMillionTokens: number;
+  outputUsdPerMillionTokens: number;
+};
+
+export type UsageTotals = GenerationUsage & {
+  requestCount: number;
+};
+
+export type GenerationSettings = {
+  concurrency: number;
 };
 
 export type ExtractedSlide = {
@@ -95,3 +353,33 @@ export type ExtractedPptxPayload = {
   slideHeight: number;
   slides: ExtractedSlide[];
 };
+
+export type GenerationPageStage =
+  | "started"
+  | "responded"
+  | "logo-locked"
+  | "saved"
+  | "error"
+  | "cancelled";
+
+export type GenerationTaskEvent =
+  | {
+      type: "page";
+      taskId: string;
+      page: number;
+      version: number;
+      stage: GenerationPageStage;
+      at: string;
+      message?: string;
+      result?: GenerationResult;
+    }
+  | {
+      type: "task";
+      taskId: string;
+      status: GenerationTaskStatus;
+      at: string;
+      completedPages: number;
+      totalPages: number;
+      batchState?: GenerationBatchState;
+      error?: string;
+    };
@@ -0,0 +1,174 @@
+import type { ImageGenerationUsage } from "@/lib/image-provider";
+import { getSpendingLimits } from "@/lib/settings";
+import { listTasks } from "@/lib/tasks-store";
+import type {
+  GenerationResult,
+  GenerationTask,
+  GenerationTaskKind,
+  GenerationUsage,
+  ImageSize,
+  ModelPrice,
+  SpendingLimits,
+  UsageTotals,
+} from "@/lib/types";
+
+export type RunUsage = {
+  runId: string;
+  taskId: string;
+  kind: GenerationTaskKind;
+  model: string;
+  createdAt: string;
+  totals: UsageTotals;
+};
+
+// Batch API は通常の単価の半額で課金される。
+export const BATCH_PRICE_RATE = 0.5;
+
+// Gemini の画像入力・出力1枚あたりのおおよそのトークン数。
+export const INPUT_IMAGE_TOKENS = 258;
+export const OUTPUT_IMAGE_TOKENS: Record<ImageSize, number> = {
+  "1K": 1120,
+  "2K": 1120,
+  "4K": 2000,
+};
+
+/**
+ * プロンプトの長さと入力画像の枚数からおおよそのトークン数を見積もる（実際の値は応答の usage で分かる）。
+ */
+export function approximateUsage(params: {
+  prompt: string;
+  inputImageCount: number;
+  imageSize: ImageSize;
+}): ImageGenerationUsage {
+  const promptTokens = Math.ceil(params.prompt.length / 4) + INPUT_IMAGE_TOKENS * params.inputImageCount;
+  const outputTokens = OUTPUT_IMAGE_TOKENS[params.imageSize];
+  return {
+    promptTokens,
+    outputTokens,
+    totalTokens: promptTokens + outputTokens,
+    imageCount: 1,
+  };
+}
+
+export function estimateUsageCost(
+  model: string,
+  usage: ImageGenerationUsage,
+  prices: Record<string, ModelPrice>,
+  priceRate = 1,
+): GenerationUsage {
+  const price = prices[model];
+  const estimatedCostUsd = price
+    ? ((usage.promptTokens * price.inputUsdPerMillionTokens +
+        usage.outputTokens * price.outputUsdPerMillionTokens) /
+        1_000_000) *
+      priceRate
+    : 0;
+  return { ...usage, estimatedCostUsd };
+}
+
+export function emptyUsageTotals(): UsageTotals {
+  return {
+    requestCount: 0,
+    promptTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    imageCount: 0,
+    estimatedCostUsd: 0,
+  };
+}
+
+function addUsage(totals: UsageTotals, usage: GenerationUsage): UsageTotals {
+  return {
+    requestCount: totals.requestCount + 1,
+    promptTokens: totals.promptTokens + usage.promptTokens,
+    outputTokens: totals.outputTokens + usage.outputTokens,
+    totalTokens: totals.totalTokens + usage.totalTokens,
+    imageCount: totals.imageCount + usage.imageCount,
+    estimatedCostUsd: totals.estimatedCostUsd + usage.estimatedCostUsd,
+  };
+}
+
+/**
+ * 結果の usage を合算する。失敗でも課金された結果は usage を持つので数える。
+ * キャッシュ再利用や API に届かなかった失敗は usage を持たないので数えない。
+ */
+export function sumResultUsage(results: GenerationResult[], base = emptyUsageTotals()): UsageTotals {
+  return results.reduce<UsageTotals>((totals, result) => (result.usage ? addUsage(totals, result.usage) : totals), base);
+}
+
+function padded(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+export function toMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${padded(date.getMonth() + 1)}`;
+}
+
+export function toDayKey(date: Date): string {
+  return `${toMonthKey(date)}-${padded(date.getDate())}`;
+}
+
+/**
+ * ジョブ・日・月ごとのタスク結果の合計。デザイン確認はジョブの履歴に残らないため、集計はタスクを基準にする。
+ * タスクファイルは1回だけ読み、3つの範囲へ同時に振り分ける。日・月は結果ごとの課金時刻で分ける
+ * （日をまたいで実行したタスクやバッチも、呼び出しが終わった日に数える）。
+ */
+export function sumUsageByScope(params: { jobId?: string; dayKey: string; monthKey: string }): {
+  job: UsageTotals | null;
+  day: UsageTotals;
+  month: UsageTotals;
+} {
+  const { jobId, dayKey, monthKey } = params;
+  let job = jobId ? emptyUsageTotals() : null;
+  let day = emptyUsageTotals();
+  let month = emptyUsageTotals();
+  for (const task of listTasks()) {
+    for (const result of task.results) {
+      if (!result.usage) {
+        continue;
+      }
+      const recordedAt = new Date(result.usage.recordedAt ?? task.createdAt);
+      if (job && task.jobId === jobId) {
+        job = addUsage(job, result.usage);
+      }
+      if (toDayKey(recordedAt) === dayKey) {
+        day = addUsage(day, result.usage);
+      }
+      if (toMonthKey(recordedAt) === monthKey) {
+        month = addUsage(month, result.usage);
+      }
+    }
+  }
+  return { job, day, month };
+}
+
+function toRunUsage(task: GenerationTask): RunUsage {
+  return {
+    runId: task.runId,
+    taskId: task.taskId,
+    kind: task.kind,
+    model: task.model,
+    createdAt: task.createdAt,
+    totals: sumResultUsage(task.results),
+  };
+}
+
+export function getUsageReport(params: { jobId?: string; monthKey: string }): {
+  runs: RunUsage[];
+  job: UsageTotals | null;
+  day: { day: string; totals: UsageTotals };
+  month: { month: string; totals: UsageTotals };
+  limits: SpendingLimits;
+} {
+  const { jobId, monthKey } = params;
+  const runs = jobId ? listTasks(jobId).map(toRunUsage) : [];
+  const dayKey = toDayKey(new Date());
+  const totals = sumUsageByScope({ jobId, dayKey, monthKey });
+  return {
+    runs,
+    job: totals.job,
+    day: { day: dayKey, totals: totals.day },
+    month: { month: monthKey, totals: totals.month },
+    limits: getSpendingLimits(),
+  };
+}